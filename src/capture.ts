@@ -0,0 +1,322 @@
+import type {
+  BrowserContext,
+  ConsoleMessage,
+  Page,
+  Request,
+  Response,
+  TestInfo,
+  Worker,
+} from '@playwright/test';
+import type { ConsoleReportOptions } from './fixtures';
+import { matchesAny } from './format';
+import type { ConsoleEntry, NetworkEntry } from './types';
+
+const TEXT_CONTENT = /json|text|xml|html|javascript|graphql|x-www-form-urlencoded/;
+
+/** How long teardown waits for an error response to finish and for its body. */
+const RESPONSE_WAIT_MS = 2000;
+
+const TIMED_OUT = Symbol('timed out');
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** Resolves with `promise`, or with `TIMED_OUT` when it takes longer than `RESPONSE_WAIT_MS`. */
+function withinWait<T>(promise: Promise<T>): Promise<T | typeof TIMED_OUT> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => resolve(TIMED_OUT), RESPONSE_WAIT_MS);
+    // A wait nobody awaits (the test passed) must not hold the worker open.
+    timer.unref?.();
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * The body of the `page` fixture: records console messages, page errors and
+ * network failures from `context` while `use` runs the test, attaches them
+ * when the test fails, and fails a passing test under the strict options.
+ */
+export async function capturePageReport(
+  page: Page,
+  context: BrowserContext,
+  {
+    consoleReportLevels,
+    networkReportHeaders,
+    networkReportBodyLimit,
+    consoleReportIgnore,
+    networkReportIgnoreUrls,
+    networkReportIgnoreStatuses,
+    failOnConsoleError,
+    failOnNetworkFailure,
+  }: ConsoleReportOptions,
+  use: (page: Page) => Promise<void>,
+  testInfo: TestInfo,
+): Promise<void> {
+  const startedAt = Date.now();
+  const consoleMessages: ConsoleEntry[] = [];
+  // Console errors strict mode fails on; kept even when `consoleReportLevels` hides errors.
+  const consoleErrors: ConsoleEntry[] = [];
+  const networkFailures: NetworkEntry[] = [];
+  const pending: Promise<void>[] = [];
+  const suppressed = { console: 0, network: 0 };
+
+  const addConsole = (entry: ConsoleEntry, shown = true) => {
+    if (matchesAny(consoleReportIgnore, entry.text)) {
+      if (shown) {
+        suppressed.console += 1;
+      }
+      return;
+    }
+    if (shown) {
+      consoleMessages.push(entry);
+    }
+    if (entry.level === 'error') {
+      consoleErrors.push(entry);
+    }
+  };
+
+  /** Records `entry` unless an ignore option matches it; returns whether it was recorded. */
+  const addNetwork = (entry: NetworkEntry) => {
+    if (
+      matchesAny(networkReportIgnoreUrls, entry.url) ||
+      (entry.status !== undefined && networkReportIgnoreStatuses.includes(entry.status))
+    ) {
+      suppressed.network += 1;
+      return false;
+    }
+    networkFailures.push(entry);
+    return true;
+  };
+
+  const pickHeaders = (headers: Record<string, string>) => {
+    const picked: Record<string, string> = {};
+    for (const name of networkReportHeaders) {
+      const value = headers[name.toLowerCase()];
+      if (value !== undefined) {
+        picked[name.toLowerCase()] = value;
+      }
+    }
+    return Object.keys(picked).length > 0 ? picked : undefined;
+  };
+
+  // Pages are numbered in the order they appear; the test's own page is always "page 1".
+  const pageLabels = new WeakMap<Page, string>();
+  let pageCount = 0;
+  const labelPage = (target: Page) => {
+    let label = pageLabels.get(target);
+    if (!label) {
+      pageCount += 1;
+      label = `page ${pageCount}`;
+      pageLabels.set(target, label);
+    }
+    return label;
+  };
+
+  const labelWorker = (worker: Worker, kind: string) => `${kind} ${worker.url()}`;
+
+  const requestSource = (request: Request) => {
+    // `serviceWorker()` is missing before Playwright 1.24.
+    const serviceWorker = request.serviceWorker?.();
+    if (serviceWorker) {
+      return labelWorker(serviceWorker, 'service worker');
+    }
+    try {
+      return labelPage(request.frame().page());
+    } catch {
+      // Requests without a frame (e.g. from a dedicated worker) cannot be tied to a page.
+      return undefined;
+    }
+  };
+
+  const networkEntry = (request: Request): NetworkEntry => {
+    const timing = request.timing();
+    return {
+      page: requestSource(request),
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      duration: timing.responseEnd >= 0 ? Math.round(timing.responseEnd) : undefined,
+      time: Date.now() - startedAt,
+      requestHeaders: pickHeaders(request.headers()),
+    };
+  };
+
+  const addConsoleMessage = (msg: ConsoleMessage, source: string | undefined) => {
+    const shown = consoleReportLevels.includes(msg.type());
+    if (!shown && !(failOnConsoleError && msg.type() === 'error')) {
+      return;
+    }
+    const { url, lineNumber, columnNumber } = msg.location();
+    addConsole(
+      {
+        type: 'console',
+        level: msg.type(),
+        text: msg.text(),
+        // Playwright reports zero-based positions; editors and stack traces are one-based.
+        location: url ? `${url}:${lineNumber + 1}:${columnNumber + 1}` : undefined,
+        page: source,
+        time: Date.now() - startedAt,
+      },
+      shown,
+    );
+  };
+
+  // Every listener is removed once the test body has run, so teardown events are not
+  // recorded and a context that outlives the test does not collect listeners.
+  const detach: Array<() => void> = [];
+
+  // Listening per page keeps popups and pages from `context.newPage()` covered on every
+  // supported Playwright version.
+  const watchPage = (target: Page) => {
+    const source = labelPage(target);
+    const onConsole = (msg: ConsoleMessage) => {
+      // `worker()` is missing in older Playwright versions; newer ones also report
+      // worker messages on the context, where they are taken from.
+      if (!msg.worker?.()) {
+        addConsoleMessage(msg, source);
+      }
+    };
+    const onPageError = (error: Error) => {
+      addConsole({
+        type: 'pageerror',
+        level: 'error',
+        text: `${error.name}: ${error.message}`,
+        stack: error.stack,
+        page: source,
+        time: Date.now() - startedAt,
+      });
+    };
+    target.on('console', onConsole);
+    target.on('pageerror', onPageError);
+    detach.push(() => {
+      target.off('console', onConsole);
+      target.off('pageerror', onPageError);
+    });
+  };
+  watchPage(page);
+
+  // Context-level console events (Playwright 1.34+) add web and service worker messages.
+  const onContextConsole = (msg: ConsoleMessage) => {
+    const worker = msg.worker?.();
+    const source = msg.page();
+    if (worker) {
+      addConsoleMessage(msg, labelWorker(worker, source ? 'worker' : 'service worker'));
+    } else if (!source) {
+      addConsoleMessage(msg, undefined);
+    }
+  };
+
+  const onRequestFailed = (request: Request) => {
+    addNetwork({
+      ...networkEntry(request),
+      failure: request.failure()?.errorText ?? 'unknown',
+    });
+  };
+
+  const onResponse = (response: Response) => {
+    if (response.status() < 400) {
+      return;
+    }
+    const request = response.request();
+    const entry: NetworkEntry = {
+      ...networkEntry(request),
+      status: response.status(),
+      responseHeaders: pickHeaders(response.headers()),
+    };
+    if (!addNetwork(entry)) {
+      return;
+    }
+    // The recorded entry gets its duration and body once the response has finished; a
+    // response that is still streaming after the wait keeps neither.
+    pending.push(
+      (async () => {
+        if ((await withinWait(response.finished())) === TIMED_OUT) {
+          return;
+        }
+        const { responseEnd } = request.timing();
+        entry.duration = responseEnd >= 0 ? Math.round(responseEnd) : undefined;
+        const contentType = response.headers()['content-type'] ?? '';
+        if (networkReportBodyLimit > 0 && TEXT_CONTENT.test(contentType)) {
+          const body = await withinWait(response.text()).catch(() => undefined);
+          if (body && body !== TIMED_OUT) {
+            entry.body =
+              body.length > networkReportBodyLimit
+                ? `${body.slice(0, networkReportBodyLimit)}… (${body.length} chars)`
+                : body;
+          }
+        }
+      })().catch(() => undefined),
+    );
+  };
+
+  context.on('page', watchPage);
+  context.on('console', onContextConsole);
+  context.on('requestfailed', onRequestFailed);
+  context.on('response', onResponse);
+  detach.push(() => {
+    context.off('page', watchPage);
+    context.off('console', onContextConsole);
+    context.off('requestfailed', onRequestFailed);
+    context.off('response', onResponse);
+  });
+
+  try {
+    await use(page);
+  } finally {
+    for (const remove of detach) {
+      remove();
+    }
+  }
+
+  // Only a test that would otherwise pass is failed here; a real failure keeps its own error.
+  const passed = testInfo.status === 'passed' && testInfo.expectedStatus === 'passed';
+  const consoleViolations = failOnConsoleError && passed
+    ? consoleErrors
+    : [];
+  const networkViolations = failOnNetworkFailure && passed ? networkFailures : [];
+  const strict = consoleViolations.length > 0 || networkViolations.length > 0;
+
+  if (testInfo.status !== testInfo.expectedStatus || strict) {
+    // Durations and bodies are only worth waiting for when the entries get attached.
+    await Promise.all(pending);
+    if (consoleMessages.length > 0) {
+      await testInfo.attach('console-errors', {
+        body: JSON.stringify(consoleMessages),
+        contentType: 'application/json',
+      });
+    }
+    if (networkFailures.length > 0) {
+      networkFailures.sort((a, b) => a.time - b.time);
+      await testInfo.attach('network-failures', {
+        body: JSON.stringify(networkFailures),
+        contentType: 'application/json',
+      });
+    }
+    if (suppressed.console > 0 || suppressed.network > 0) {
+      await testInfo.attach('report-suppressed', {
+        body: JSON.stringify(suppressed),
+        contentType: 'application/json',
+      });
+    }
+  }
+
+  if (strict) {
+    await testInfo.attach('report-strict', {
+      body: JSON.stringify({ console: consoleViolations.length, network: networkViolations.length }),
+      contentType: 'application/json',
+    });
+    const counts = [
+      consoleViolations.length > 0 ? plural(consoleViolations.length, 'console error') : '',
+      networkViolations.length > 0 ? plural(networkViolations.length, 'network failure') : '',
+    ].filter(Boolean);
+    const lines = [
+      ...consoleViolations.map((entry) =>
+        entry.type === 'pageerror' ? `  page error: ${entry.text}` : `  console.error: ${entry.text}`,
+      ),
+      ...networkViolations.map(
+        (entry) => `  [${entry.status ?? entry.failure}] ${entry.method} ${entry.url}`,
+      ),
+    ];
+    throw new Error(`The page reported ${counts.join(' and ')} during the test:\n${lines.join('\n')}`);
+  }
+}
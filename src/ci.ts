@@ -0,0 +1,102 @@
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { errorLocation, failureMessage, relativePath, stripAnsi } from './format';
+import type { FailedTest } from './types';
+
+export type CiProvider = 'github' | 'gitlab';
+
+/** GitHub truncates job summaries larger than 1 MiB. */
+export const GITHUB_STEP_SUMMARY_LIMIT = 1024 * 1024;
+
+/**
+ * The job summary limit as a string length. The Markdown summary is capped in
+ * UTF-16 code units, and each takes at most 3 bytes in UTF-8 (`✔`, `✖` and
+ * `›` take exactly 3), so this length always fits in the byte limit.
+ */
+export const GITHUB_STEP_SUMMARY_MAX_LENGTH = Math.floor(GITHUB_STEP_SUMMARY_LIMIT / 3);
+
+/** A failure pinned to a source location, as shown by CI annotations. */
+export type CiAnnotation = {
+  /** Path relative to the working directory, with forward slashes. */
+  file: string;
+  line?: number;
+  column?: number;
+  /** Project and title path, e.g. `chromium > login.spec.ts > Login > logs in`. */
+  title: string;
+  message: string;
+};
+
+/** Pins a failure to its first user stack frame, or to its spec file. */
+export function ciAnnotation(failure: FailedTest, hiddenFrames: Array<string | RegExp>): CiAnnotation {
+  const location = failure.error && errorLocation(failure.error, hiddenFrames);
+  return {
+    file: relativePath(location ? path.resolve(location.file) : failure.filePath),
+    line: location?.line,
+    column: location?.column,
+    title: failure.titlePath.slice(1).join(' > '),
+    message: stripAnsi(failureMessage(failure)),
+  };
+}
+
+export function detectCiProvider(env: NodeJS.ProcessEnv): CiProvider | undefined {
+  if (env.GITHUB_ACTIONS === 'true') {
+    return 'github';
+  }
+  if (env.GITLAB_CI === 'true') {
+    return 'gitlab';
+  }
+  return undefined;
+}
+
+/** `::error file=…,line=…::message` workflow command for one failure. */
+export function githubErrorCommand(annotation: CiAnnotation): string {
+  const properties = [
+    `file=${escapeProperty(annotation.file)}`,
+    annotation.line !== undefined ? `line=${annotation.line}` : '',
+    annotation.column !== undefined ? `col=${annotation.column}` : '',
+    `title=${escapeProperty(annotation.title)}`,
+  ].filter(Boolean);
+  return `::error ${properties.join(',')}::${escapeData(annotation.message)}\n`;
+}
+
+export function githubGroupStart(title: string): string {
+  return `::group::${escapeData(title)}\n`;
+}
+
+export function githubGroupEnd(): string {
+  return '::endgroup::\n';
+}
+
+/**
+ * GitLab collapsible section markers. `name` may only contain letters,
+ * digits, `_`, `.` and `-`; `time` is in milliseconds.
+ */
+export function gitlabSectionStart(name: string, header: string, time: number, collapsed: boolean): string {
+  const options = collapsed ? '[collapsed=true]' : '';
+  return `\u001b[0Ksection_start:${Math.floor(time / 1000)}:${name}${options}\r\u001b[0K${header}\n`;
+}
+
+export function gitlabSectionEnd(name: string, time: number): string {
+  return `\u001b[0Ksection_end:${Math.floor(time / 1000)}:${name}\r\u001b[0K\n`;
+}
+
+/** GitLab Code Quality report, which GitLab shows inline in merge requests. */
+export function buildCodeQualityReport(annotations: CiAnnotation[]): string {
+  const issues = annotations.map((annotation) => ({
+    description: `${annotation.title}: ${annotation.message.split('\n')[0]}`,
+    check_name: 'playwright-test-failure',
+    // Stable across runs so GitLab can tell new failures from existing ones.
+    fingerprint: createHash('md5').update(`${annotation.file}\n${annotation.title}`).digest('hex'),
+    severity: 'major',
+    location: { path: annotation.file, lines: { begin: annotation.line ?? 1 } },
+  }));
+  return `${JSON.stringify(issues, null, 2)}\n`;
+}
+
+function escapeData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+import JenkinsReporter from './index';
+import type { ReporterOptions } from './options';
+import { mergeShardData, readShardData } from './shard';
+
+const USAGE = `Usage: playwright-terminal-reporter merge <dir> [options]
+
+Combines the shard data written by each sharded run (reporter option
+"shardDataDir") and prints the report a single run would have printed.
+
+Options:
+  --output-file <path>        also write the report to this file
+  --json-output-file <path>   write the JSON summary to this file
+  --junit-output-file <path>  write a JUnit XML report to this file
+  --html-output-file <path>   write an HTML report to this file
+  --markdown-output-file <path>
+                              write a Markdown summary to this file
+  --history-file <path>       compare with and append to this run history file
+  --no-color                  disable coloured output
+  -h, --help                  show this help
+`;
+
+const VALUE_FLAGS: Record<string, keyof ReporterOptions> = {
+  '--output-file': 'outputFile',
+  '--json-output-file': 'jsonOutputFile',
+  '--junit-output-file': 'junitOutputFile',
+  '--html-output-file': 'htmlOutputFile',
+  '--markdown-output-file': 'markdownOutputFile',
+  '--history-file': 'historyFile',
+};
+
+/** Runs the CLI and resolves to the process exit code once every renderer has finished. */
+export async function run(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (command === '-h' || command === '--help') {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (command !== 'merge') {
+    process.stderr.write(command ? `Unknown command "${command}"\n\n${USAGE}` : USAGE);
+    return 2;
+  }
+
+  const options: ReporterOptions = {};
+  const positional: string[] = [];
+  for (let index = 0; index < rest.length; index += 1) {
+    const arg = rest[index];
+    if (arg === '-h' || arg === '--help') {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    if (arg === '--no-color') {
+      options.color = false;
+    } else if (Object.prototype.hasOwnProperty.call(VALUE_FLAGS, arg)) {
+      const value = rest[index + 1];
+      if (!value || value.startsWith('--')) {
+        process.stderr.write(`Missing value for ${arg}\n\n${USAGE}`);
+        return 2;
+      }
+      (options as Record<string, unknown>)[VALUE_FLAGS[arg]] = value;
+      index += 1;
+    } else if (arg.startsWith('-')) {
+      process.stderr.write(`Unknown option "${arg}"\n\n${USAGE}`);
+      return 2;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length !== 1) {
+    process.stderr.write(USAGE);
+    return 2;
+  }
+
+  let merged;
+  try {
+    merged = mergeShardData(readShardData(positional[0]));
+  } catch (error) {
+    process.stderr.write(`playwright-terminal-reporter: ${(error as Error).message}\n`);
+    return 1;
+  }
+
+  await new JenkinsReporter(options).printMergedRun(merged);
+  return merged.status === 'passed' && merged.missingShards.length === 0 ? 0 : 1;
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,48 @@
+import { failureMessage, stripAnsi } from './format';
+import type { FailedTest } from './types';
+
+export type FailureCluster = {
+  /** Normalised message shared by every failure in the cluster. */
+  signature: string;
+  failures: FailedTest[];
+};
+
+/** Affected tests listed per cluster before the rest are summarised as "… and N more". */
+export const MAX_CLUSTER_TESTS = 10;
+
+const UUID = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+// Long hex runs are request ids, hashes and object ids rather than words.
+const HEX_ID = /\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi;
+const URL_SUFFIX = /(\bhttps?:\/\/[^\s?#'"`]+)[?#][^\s'"`]*/g;
+const NUMBER = /\d+/g;
+
+/**
+ * Reduces an error message to the part that identifies its cause: the text
+ * before Playwright's call log, with ids, numbers (and so timeouts) and URL
+ * query strings replaced so that the same failure in different tests matches.
+ */
+export function errorSignature(message: string): string {
+  const [head] = stripAnsi(message).split(/\n\s*Call log:/);
+  return head
+    .replace(URL_SUFFIX, '$1')
+    .replace(UUID, '<id>')
+    .replace(HEX_ID, '<id>')
+    .replace(NUMBER, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Groups failures by `errorSignature`, largest cluster first, ties in first-seen order. */
+export function clusterFailures(failures: FailedTest[]): FailureCluster[] {
+  const clusters = new Map<string, FailureCluster>();
+  for (const failure of failures) {
+    const signature = errorSignature(failureMessage(failure));
+    const cluster = clusters.get(signature);
+    if (cluster) {
+      cluster.failures.push(failure);
+    } else {
+      clusters.set(signature, { signature, failures: [failure] });
+    }
+  }
+  return [...clusters.values()].sort((a, b) => b.failures.length - a.failures.length);
+}
@@ -0,0 +1,63 @@
+export type CodeFrameLine = {
+  text: string;
+  /** The failing line and the caret beneath it. */
+  focus: boolean;
+};
+
+export type FrameLocation = {
+  file: string;
+  line: number;
+  column: number;
+};
+
+/**
+ * Renders `contextLines` lines either side of `line` with a line-number
+ * gutter, a `>` marker on the failing line and a caret under `column`.
+ */
+export function buildCodeFrame(
+  source: string,
+  location: Pick<FrameLocation, 'line' | 'column'>,
+  contextLines = 2,
+): CodeFrameLine[] {
+  const lines = source.split(/\r?\n/);
+  if (location.line < 1 || location.line > lines.length) {
+    return [];
+  }
+
+  const first = Math.max(1, location.line - contextLines);
+  const last = Math.min(lines.length, location.line + contextLines);
+  const gutterWidth = String(last).length;
+  const frame: CodeFrameLine[] = [];
+
+  for (let number = first; number <= last; number += 1) {
+    const focus = number === location.line;
+    const gutter = `${focus ? '>' : ' '} ${String(number).padStart(gutterWidth)} |`;
+    const code = lines[number - 1].replace(/\t/g, '  ');
+    frame.push({ text: code ? `${gutter} ${code}` : gutter, focus });
+
+    if (focus) {
+      const before = lines[number - 1].slice(0, Math.max(0, location.column - 1));
+      const offset = before.replace(/\t/g, '  ').length;
+      frame.push({
+        text: `  ${' '.repeat(gutterWidth)} | ${' '.repeat(offset)}^`,
+        focus: true,
+      });
+    }
+  }
+
+  return frame;
+}
+
+/** Extracts the file, line and column from a stack frame such as `at fn (/a/b.ts:12:5)`. */
+export function parseStackLocation(frame: string): FrameLocation | undefined {
+  const match = frame.trim().match(/^at (?:.*? \()?(.+?):(\d+):(\d+)\)?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    file: match[1].replace(/^file:\/\//, ''),
+    line: Number(match[2]),
+    column: Number(match[3]),
+  };
+}
@@ -0,0 +1,1223 @@
+import type { TestError } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ciAnnotation,
+  githubErrorCommand,
+  githubGroupEnd,
+  githubGroupStart,
+  gitlabSectionEnd,
+  gitlabSectionStart,
+  type CiProvider,
+} from './ci';
+import { clusterFailures, MAX_CLUSTER_TESTS } from './clusters';
+import { buildCodeFrame, type CodeFrameLine } from './codeframe';
+import {
+  errorLocation,
+  failureMessage,
+  formatClockDuration,
+  formatDuration,
+  formatSecondsText,
+  formatStackLine,
+  isUserFrame,
+  stripAnsi,
+  titleWithTags,
+} from './format';
+import {
+  analyzeHistory,
+  buildHistoryRun,
+  readHistory,
+  type HistoryInsight,
+} from './history';
+import { groupByPage } from './model';
+import type { ResolvedOptions } from './options';
+import type { Renderer, Run } from './renderer';
+import { buildTheme, colorLevel, type Theme, type ThemeElement } from './theme';
+import type {
+  AttemptRecord,
+  ConsoleEntry,
+  NetworkEntry,
+  SpecStats,
+  StrictViolations,
+  SuppressedCounts,
+  TestOutcome,
+  TestRecord,
+} from './types';
+
+type TestLine = {
+  text: string;
+  tone?: ThemeElement;
+};
+
+const OUTCOME_ELEMENTS: Record<TestOutcome, ThemeElement> = {
+  passed: 'pass',
+  failed: 'fail',
+  flaky: 'flaky',
+  pending: 'pending',
+  skipped: 'skipped',
+};
+
+/**
+ * The Cypress-style console report: run-start box, a block per spec and the
+ * final summary table. Writes to stdout and `outputFile`.
+ */
+export class ConsoleRenderer implements Renderer {
+  private readonly useColor: boolean;
+  private readonly theme: Theme;
+  private outputFd?: number;
+  private streamingSpec?: string;
+  private progressVisible = false;
+  private sourceCache = new Map<string, string | undefined>();
+
+  private searchedDisplay = '.';
+  private tableFilenameWidth = 20;
+  private tableRowWidth = 76;
+
+  constructor(
+    private readonly options: ResolvedOptions,
+    private readonly optionErrors: string[] = [],
+    private readonly ciProvider?: CiProvider,
+  ) {
+    this.useColor =
+      (this.options.stdout && this.options.color !== false) ||
+      (this.options.outputFile !== undefined && this.options.outputFileColor);
+    this.theme = buildTheme(this.options.theme, colorLevel(this.options.color, process.env));
+  }
+
+  onBegin(run: Run): void {
+    this.openOutputFile();
+    for (const message of this.optionErrors) {
+      this.printError('Reporter Options', { message });
+    }
+    this.printRunStart(run);
+  }
+
+  onSpecBegin(spec: SpecStats, run: Run): void {
+    if (this.options.streaming && this.options.verbosity !== 'quiet') {
+      this.printSpecHeader(spec, run);
+      this.renderProgress(run);
+    }
+  }
+
+  onTestEnd(test: TestRecord, spec: SpecStats, run: Run): void {
+    if (this.options.streaming && this.options.verbosity !== 'quiet') {
+      if (this.streamingSpec !== spec.filePath) {
+        this.printSpecHeader(spec, run, true);
+      }
+      for (const line of this.testLines(test, run)) {
+        this.write(`${this.formatTestLine(line)}\n`);
+      }
+    }
+    this.renderProgress(run);
+  }
+
+  onSpecEnd(spec: SpecStats, run: Run): void {
+    this.printSpecResults(spec, run);
+    this.renderProgress(run);
+  }
+
+  onError(error: TestError): void {
+    this.printError('Global Error', error);
+  }
+
+  onEnd(run: Run): void {
+    this.finishRun(run);
+  }
+
+  printError(heading: string, error: TestError): void {
+    this.write(this.paint('fail', `\n  (${heading})\n\n`));
+    if (error.message) {
+      for (const line of error.message.split('\n')) {
+        this.write(this.paint('fail', `  ${line}\n`));
+      }
+    }
+    if (error.stack) {
+      const frames = error.stack.split('\n').filter((l) => this.isUserFrame(l));
+      if (frames.length > 0) {
+        this.write('\n');
+        for (const line of frames) {
+          this.write(`  ${this.paint('stack', formatStackLine(line))}\n`);
+        }
+      }
+    }
+    this.write('\n');
+  }
+
+  private printRunStart(run: Run): void {
+    const specs = run.specs;
+    this.searchedDisplay = this.getSearchedDisplay(specs.map((spec) => spec.filePath));
+    const longestFileName = Math.max(...specs.map((spec) => spec.fileName.length), 20);
+    const maxFilenameWidth = Math.max(20, (process.stdout.columns || 80) - 60);
+    this.tableFilenameWidth = Math.min(longestFileName, maxFilenameWidth);
+    this.tableRowWidth = this.tableFilenameWidth + 56;
+    if (this.options.verbosity === 'quiet') {
+      return;
+    }
+
+    this.write(`${'='.repeat(this.lineWidth())}\n\n`);
+    this.write(this.heading('(Run Starting)'));
+
+    this.writeBox([
+      this.formatKv('Reporter', 'playwright-console-reporter'),
+      this.formatKv('Browser', run.browserDisplay),
+      this.formatKv('Node Version', `${process.version} (${process.execPath})`),
+      this.formatKv(
+        'Specs',
+        this.truncate(
+          `${specs.length} found (${specs.map((spec) => spec.fileName).join(', ')})`,
+          this.rowWidth() - 2 - 'Specs: '.length,
+        ),
+      ),
+      this.formatKv('Searched', this.searchedDisplay || '.'),
+      ...(this.options.verbosity === 'verbose' ? this.verboseRunRows(run) : []),
+    ]);
+
+    this.write('\n');
+  }
+
+  private verboseRunRows(run: Run): string[] {
+    const rows: string[] = [];
+    if (run.workers !== undefined) {
+      rows.push(this.formatKv('Workers', String(run.workers)));
+    }
+    if (run.shard) {
+      rows.push(this.formatKv('Shard', `${run.shard.current} of ${run.shard.total}`));
+    }
+    rows.push(this.formatKv('Tests', String(run.totals.tests)));
+    return rows;
+  }
+
+  /** The test's line, followed by its annotations and, in verbose mode, attachments. */
+  private testLines(test: TestRecord, run: Run): TestLine[] {
+    const duration = formatDuration(test.duration);
+    const suffix = `${this.slowTag(test)}${this.workerTag(test, run)}`;
+    const title = titleWithTags(test.title, test.tags);
+    const isSlow = test.annotations.some((a) => a.type === 'slow');
+    const lines: TestLine[] = [];
+    if (test.outcome === 'passed') {
+      if (test.status === 'failed') {
+        lines.push({ text: `    ✔ ${title} (${duration}) (expected failure)${suffix}`, tone: 'pass' });
+      } else if (isSlow) {
+        lines.push({ text: `    ✔ ${title} (${duration}) (slow)${suffix}`, tone: 'pass' });
+      } else {
+        lines.push({ text: `    ✔ ${title} (${duration})${suffix}`, tone: 'pass' });
+      }
+    } else if (test.outcome === 'flaky') {
+      lines.push({ text: `    ~ ${title} (${duration}) (flaky)${suffix}`, tone: 'flaky' });
+    } else if (test.outcome === 'pending' || test.outcome === 'skipped') {
+      const label = test.outcome === 'pending' ? 'fixme' : 'skipped';
+      lines.push({ text: `    - ${title} (${label})${suffix}`, tone: OUTCOME_ELEMENTS[test.outcome] });
+    } else {
+      lines.push({
+        text: `    ✖ ${title} (${duration})${test.status === 'passed' ? ' (unexpected pass)' : ''}${suffix}`,
+        tone: 'fail',
+      });
+    }
+    if (test.outcome === 'passed' || test.outcome === 'flaky') {
+      if (this.options.verbosity === 'verbose') {
+        lines.push(...this.annotationLines(test), ...this.attachmentLines(test));
+      }
+    } else {
+      lines.push(...this.annotationLines(test));
+    }
+    return lines;
+  }
+
+  /**
+   * One line per annotation, linked through `annotationLinks`. Bare `skip`,
+   * `fixme` and `slow` annotations are left out; the test line already says so.
+   */
+  private annotationLines(test: TestRecord): TestLine[] {
+    return test.annotations
+      .filter(
+        (annotation) =>
+          annotation.description || !['skip', 'fixme', 'slow'].includes(annotation.type),
+      )
+      .map((annotation) => {
+        const description = annotation.description
+          ? `: ${this.annotationLink(annotation.type, annotation.description)}`
+          : '';
+        return { text: `        @${annotation.type}${description}` };
+      });
+  }
+
+  private annotationLink(type: string, description: string): string {
+    const template = Object.prototype.hasOwnProperty.call(this.options.annotationLinks, type)
+      ? this.options.annotationLinks[type]
+      : undefined;
+    if (!template || /^https?:\/\//.test(description)) {
+      return description;
+    }
+    return template.replace(/\{description\}/g, encodeURIComponent(description));
+  }
+
+  /** Attachment lines shown under a passing test in verbose mode. */
+  private attachmentLines(test: TestRecord): TestLine[] {
+    return test.attachments.map((attachment) => {
+      const target = attachment.path
+        ? path.relative(process.cwd(), attachment.path)
+        : `${attachment.contentType}, ${attachment.size ?? 0} bytes`;
+      return { text: `        attachment ${attachment.name}: ${target}`, tone: 'path' };
+    });
+  }
+
+  private finishRun(run: Run): void {
+    const endTime = run.endTime ?? Date.now();
+    const totals = run.totals;
+    const specs = run.specs;
+    this.write(`${'='.repeat(this.lineWidth())}\n\n`);
+    this.write(this.heading('(Run Finished)'));
+
+    this.writeSummaryTable(
+      'Spec',
+      specs.map((spec) => ({
+        failed: spec.failing > 0,
+        row: this.summaryRow(
+          spec.failing > 0 ? '✖' : '✔',
+          spec.fileName,
+          spec.testTime,
+          [spec.total, spec.passing, spec.failing, spec.flaky, spec.pending, spec.skipped],
+        ),
+      })),
+    );
+
+    const allPassed = totals.failed === 0;
+    const footer = ` ${this.summaryRow(
+      allPassed ? '✔' : '✖',
+      allPassed ? 'All specs passed!' : 'Some specs failed',
+      endTime - run.startTime,
+      [totals.tests, totals.passed, totals.failed, totals.flaky, totals.pending, totals.skipped],
+    )}`;
+    const footerPadded = footer.padEnd(this.tableRowWidth);
+    this.write(`  ${allPassed ? this.paint('pass', footerPadded) : this.paint('fail', footerPadded)}\n`);
+
+    const projects = this.projectNames(run);
+    if (this.options.projectMatrix && projects.length > 1) {
+      this.printProjectTotals(run, projects);
+      this.printProjectMatrix(run, projects);
+    }
+
+    if (this.options.failureClusters && this.options.verbosity !== 'quiet') {
+      this.printFailureClusters(run);
+    }
+
+    if (this.options.slowestTests > 0 || this.options.slowSpecShare !== undefined) {
+      this.printSlowest(run);
+    }
+
+    if (this.options.workerUtilization) {
+      this.printWorkerUtilization(run, endTime - run.startTime);
+    }
+
+    // A shard only saw part of the suite; the merged run prints the history instead.
+    if (this.options.historyFile && !run.shard) {
+      this.printHistory(run, this.options.historyFile);
+    }
+
+    this.write(`\n  Status: ${(run.status ?? 'passed').toUpperCase()}\n\n`);
+    this.closeOutputFile();
+
+    if (this.ciProvider === 'github') {
+      for (const failure of run.failures) {
+        this.write(githubErrorCommand(ciAnnotation(failure, this.options.hiddenFrames)), 'stdout');
+      }
+    }
+  }
+
+  /** Opens a collapsible CI section around a spec block. */
+  private startCiSection(spec: SpecStats, run: Run): void {
+    const specs = run.specs;
+    const specIndex = specs.indexOf(spec) + 1;
+    const title = `Running:  ${spec.fileName} (${specIndex} of ${specs.length})`;
+    if (this.ciProvider === 'github') {
+      this.write(githubGroupStart(title), 'stdout');
+    } else if (this.ciProvider === 'gitlab') {
+      this.write(gitlabSectionStart(`spec_${specIndex}`, title, Date.now(), spec.failing === 0), 'stdout');
+    }
+  }
+
+  private endCiSection(spec: SpecStats, run: Run): void {
+    const specIndex = run.specs.indexOf(spec) + 1;
+    if (this.ciProvider === 'github') {
+      this.write(githubGroupEnd(), 'stdout');
+    } else if (this.ciProvider === 'gitlab') {
+      this.write(gitlabSectionEnd(`spec_${specIndex}`, Date.now()), 'stdout');
+    }
+  }
+
+  private printSlowest(run: Run): void {
+    const specs = run.specs;
+    const tests = specs
+      .flatMap((spec) => spec.tests.map((test) => ({ spec, test })))
+      .filter(({ test }) => test.outcome !== 'skipped' && test.outcome !== 'pending')
+      .sort((a, b) => b.test.duration - a.test.duration)
+      .slice(0, this.options.slowestTests);
+
+    const totalTestTime = specs.reduce((sum, spec) => sum + spec.testTime, 0);
+    const share = this.options.slowSpecShare;
+    const slowSpecs =
+      share === undefined || totalTestTime === 0
+        ? []
+        : specs.filter((spec) => spec.testTime / totalTestTime > share);
+
+    if (tests.length === 0 && slowSpecs.length === 0) {
+      return;
+    }
+
+    this.write(`\n${this.heading('(Slowest Tests)')}`);
+    const durationWidth = Math.max(
+      ...tests.map(({ test }) => formatDuration(test.duration).length),
+      0,
+    );
+    tests.forEach(({ spec, test }, idx) => {
+      const rank = `${idx + 1}.`.padStart(String(tests.length).length + 1);
+      const duration = formatDuration(test.duration).padStart(durationWidth);
+      const title = test.titlePath.slice(3).join(' > ') || test.title;
+      // The default project has no name; it gets no tag.
+      const project = test.titlePath[1] ? `[${test.titlePath[1]}]  ` : '';
+      this.write(`    ${rank} ${duration}  ${spec.fileName}  ${project}${title}\n`);
+    });
+
+    if (slowSpecs.length > 0) {
+      if (tests.length > 0) {
+        this.write('\n');
+      }
+      this.write(`    Specs over ${Math.round(share! * 100)}% of total test time:\n`);
+      for (const spec of slowSpecs) {
+        const percent = Math.round((spec.testTime / totalTestTime) * 100);
+        this.write(
+          this.paint('fail', `      ⚠ ${spec.fileName} ${formatClockDuration(spec.testTime)} (${percent}%)\n`),
+        );
+      }
+    }
+  }
+
+  /** Compares the run with the history file; `ReportFileRenderer` appends it afterwards. */
+  private printHistory(run: Run, file: string): void {
+    let history;
+    try {
+      history = readHistory(path.resolve(this.options.configDir, file));
+    } catch (error) {
+      this.printError('History', { message: (error as Error).message });
+      return;
+    }
+
+    const previous = history.runs.slice(-this.options.historySize);
+    const current = buildHistoryRun(
+      run.startTime,
+      run.specs.flatMap((spec) => spec.tests),
+    );
+    const insights = analyzeHistory(previous, current, this.options.durationRegressionFactor);
+    if (previous.length === 0 || insights.length === 0) {
+      return;
+    }
+
+    const order: HistoryInsight['kind'][] = ['new-failure', 'still-failing', 'fixed', 'flaky', 'slower'];
+    const rows = [...insights]
+      .sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind))
+      .map((insight) => ({ insight, label: this.historyLabel(insight) }));
+    const labelWidth = Math.max(...rows.map((row) => row.label.length));
+
+    this.write(
+      `\n${this.heading(`(History: ${previous.length} previous run${previous.length === 1 ? '' : 's'})`)}`,
+    );
+    for (const { insight, label } of rows) {
+      const line = `    ${label.padEnd(labelWidth)}  ${insight.key}`;
+      if (insight.kind === 'new-failure' || insight.kind === 'still-failing') {
+        this.write(`${this.paint('fail', line)}\n`);
+      } else if (insight.kind === 'fixed') {
+        this.write(`${this.paint('pass', line)}\n`);
+      } else if (insight.kind === 'flaky') {
+        this.write(`${this.paint('flaky', line)}\n`);
+      } else {
+        this.write(`${line}\n`);
+      }
+    }
+  }
+
+  private historyLabel(insight: HistoryInsight): string {
+    switch (insight.kind) {
+      case 'new-failure':
+        return '✖ new failure';
+      case 'still-failing':
+        return `✖ still failing (${insight.runs} runs)`;
+      case 'fixed':
+        return '✔ fixed';
+      case 'flaky':
+        return `~ flaky ${insight.flaky}/${insight.runs} recent runs`;
+      case 'slower':
+        return `⚠ slower ${formatDuration(insight.duration)} vs median ${formatDuration(Math.round(insight.median))}`;
+    }
+  }
+
+  private printWorkerUtilization(run: Run, runDuration: number): void {
+    const workers = run.workerStats;
+    if (workers.length === 0) {
+      return;
+    }
+
+    this.write(`\n${this.heading('(Worker Utilization)')}`);
+    this.write(
+      `    ${'Worker'.padEnd(8)} ${'Attempts'.padStart(8)} ${'Busy'.padStart(8)} ` +
+        `${'Idle'.padStart(8)} ${'Utilization'.padStart(11)}\n`,
+    );
+    for (const worker of workers) {
+      const busy = Math.min(worker.busy, runDuration);
+      const utilization = runDuration > 0 ? Math.round((busy / runDuration) * 100) : 0;
+      this.write(
+        `    ${String(worker.parallelIndex).padEnd(8)} ${String(worker.attempts).padStart(8)} ` +
+          `${formatClockDuration(busy).padStart(8)} ` +
+          `${formatClockDuration(runDuration - busy).padStart(8)} ` +
+          `${`${utilization}%`.padStart(11)}\n`,
+      );
+    }
+  }
+
+  private projectNames(run: Run): string[] {
+    const projects: string[] = [];
+    for (const spec of run.specs) {
+      for (const test of spec.tests) {
+        const project = test.titlePath[1] ?? '';
+        if (!projects.includes(project)) {
+          projects.push(project);
+        }
+      }
+    }
+    return projects;
+  }
+
+  private printProjectTotals(run: Run, projects: string[]): void {
+    const tests = run.specs.flatMap((spec) => spec.tests);
+    this.write('\n');
+    this.writeSummaryTable(
+      'Project',
+      projects.map((project) => {
+        const own = tests.filter((test) => (test.titlePath[1] ?? '') === project);
+        const count = (...outcomes: TestOutcome[]) =>
+          own.filter((test) => outcomes.includes(test.outcome)).length;
+        const failed = count('failed');
+        const duration = own.reduce((sum, test) => sum + test.duration, 0);
+        return {
+          failed: failed > 0,
+          row: this.summaryRow(failed > 0 ? '✖' : '✔', project, duration, [
+            own.length,
+            count('passed', 'flaky'),
+            failed,
+            count('flaky'),
+            count('pending'),
+            count('skipped'),
+          ]),
+        };
+      }),
+    );
+  }
+
+  /** The boxed summary table: a column header, then one row per spec or project. */
+  private writeSummaryTable(label: string, rows: { failed: boolean; row: string }[]): void {
+    const tableHeader =
+      `       ${label.padEnd(this.tableFilenameWidth + 1)} ` +
+      `${'Duration'.padStart(8)} ` +
+      `${'Total'.padStart(5)} ` +
+      `${'Passed'.padStart(6)} ` +
+      `${'Failed'.padStart(6)} ` +
+      `${'Flaky'.padStart(5)} ` +
+      `${'Pending'.padStart(7)} ` +
+      `${'Skipped'.padStart(7)}`;
+    this.write(`${tableHeader}\n`);
+    this.write(`  ┌${'─'.repeat(this.tableRowWidth)}┐\n`);
+
+    rows.forEach(({ failed, row }, index) => {
+      const rowPadded = row.padEnd(this.tableRowWidth);
+      this.write(`  │${failed ? this.paint('fail', rowPadded) : this.paint('pass', rowPadded)}│\n`);
+      if (index < rows.length - 1) {
+        this.write(`  ├${'─'.repeat(this.tableRowWidth)}┤\n`);
+      }
+    });
+
+    this.write(`  └${'─'.repeat(this.tableRowWidth)}┘\n`);
+  }
+
+  /** One summary table row; `counts` are total, passed, failed, flaky, pending and skipped. */
+  private summaryRow(icon: string, label: string, duration: number, counts: number[]): string {
+    const [total, passed, failed, flaky, pending, skipped] = counts.map(String);
+    return (
+      ` ${icon}  ${this.truncate(label, this.tableFilenameWidth).padEnd(this.tableFilenameWidth)} ` +
+      `${formatClockDuration(duration).padStart(8)} ${total.padStart(5)} ${passed.padStart(6)} ` +
+      `${failed.padStart(6)} ${flaky.padStart(5)} ${pending.padStart(7)} ${skipped.padStart(7)}`
+    );
+  }
+
+  /** Failing and flaky tests as rows, projects as columns. */
+  private printProjectMatrix(run: Run, projects: string[]): void {
+    const rows = new Map<string, Map<string, TestOutcome>>();
+    for (const spec of run.specs) {
+      for (const test of spec.tests) {
+        const key = test.titlePath.slice(2).join(' > ');
+        const cells = rows.get(key) ?? new Map<string, TestOutcome>();
+        cells.set(test.titlePath[1] ?? '', test.outcome);
+        rows.set(key, cells);
+      }
+    }
+    const failing = [...rows].filter(([, cells]) =>
+      [...cells.values()].some((outcome) => outcome === 'failed' || outcome === 'flaky'),
+    );
+    if (failing.length === 0) {
+      return;
+    }
+
+    const widths = projects.map((project) => Math.max(project.length, 1));
+    const columnsWidth = widths.reduce((sum, width) => sum + width + 2, 0);
+    const titleWidth = Math.max(20, this.lineWidth() - 4 - columnsWidth);
+    const symbols: Record<TestOutcome, string> = {
+      passed: '✔',
+      failed: '✖',
+      flaky: '~',
+      pending: '-',
+      skipped: '-',
+    };
+
+    this.write(`\n${this.heading('(Project Matrix)')}`);
+    this.write(
+      `    ${'Test'.padEnd(titleWidth)}` +
+        `${projects.map((project, index) => `  ${project.padEnd(widths[index])}`).join('')}\n`,
+    );
+    for (const [key, cells] of failing) {
+      const columns = projects.map((project, index) => {
+        const outcome = cells.get(project);
+        const symbol = outcome ? symbols[outcome] : '-';
+        const cell = index < projects.length - 1 ? symbol.padEnd(widths[index]) : symbol;
+        return `  ${outcome ? this.paint(OUTCOME_ELEMENTS[outcome], cell) : cell}`;
+      });
+      this.write(`    ${this.truncate(key, titleWidth).padEnd(titleWidth)}${columns.join('')}\n`);
+    }
+  }
+
+  private printFailureClusters(run: Run): void {
+    // A cluster of one is already in its spec's (Failures) section.
+    const clusters = clusterFailures(run.failures).filter(
+      (cluster) => cluster.failures.length > 1,
+    );
+    if (clusters.length === 0) {
+      return;
+    }
+
+    this.write(`\n${this.heading('(Failure Clusters)')}`);
+    clusters.forEach((cluster, index) => {
+      this.write(this.paint('fail', `  ${index + 1}) ${cluster.failures.length} failures\n`));
+      this.write(this.paint('fail', `     ${this.truncate(cluster.signature, this.lineWidth() - 5)}\n`));
+      const shown = cluster.failures.slice(0, MAX_CLUSTER_TESTS);
+      for (const failure of shown) {
+        this.write(`       ${failure.titlePath.slice(1).join(' > ')}\n`);
+      }
+      if (cluster.failures.length > shown.length) {
+        this.write(`       … and ${cluster.failures.length - shown.length} more\n`);
+      }
+      this.write('\n');
+    });
+  }
+
+  private codeFrame(error: TestError): CodeFrameLine[] {
+    if (!this.options.codeFrames) {
+      return [];
+    }
+    if (error.snippet) {
+      return error.snippet.split('\n').map((text) => ({ text, focus: false }));
+    }
+
+    const location = errorLocation(error, this.options.hiddenFrames);
+    if (!location) {
+      return [];
+    }
+
+    const filePath = path.resolve(location.file);
+    if (!this.sourceCache.has(filePath)) {
+      try {
+        this.sourceCache.set(filePath, fs.readFileSync(filePath, 'utf-8'));
+      } catch {
+        this.sourceCache.set(filePath, undefined);
+      }
+    }
+    const source = this.sourceCache.get(filePath);
+    return source === undefined ? [] : buildCodeFrame(source, location);
+  }
+
+  private strictLabel(violations: StrictViolations): string {
+    return [
+      violations.console > 0 ? 'failOnConsoleError' : '',
+      violations.network > 0 ? 'failOnNetworkFailure' : '',
+    ]
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  private formatSuppressed(counts: SuppressedCounts): string {
+    const parts: string[] = [];
+    if (counts.console > 0) {
+      parts.push(`${counts.console} console ${counts.console === 1 ? 'entry' : 'entries'}`);
+    }
+    if (counts.network > 0) {
+      parts.push(`${counts.network} network ${counts.network === 1 ? 'entry' : 'entries'}`);
+    }
+    return `${parts.join(', ')} matched an ignore pattern`;
+  }
+
+  private printNetworkTable(entries: NetworkEntry[], indent: string): void {
+    const rows = entries.map((entry) => [
+      entry.status !== undefined ? String(entry.status) : 'failed',
+      entry.method,
+      entry.resourceType,
+      entry.duration !== undefined ? formatDuration(entry.duration) : '-',
+      entry.failure ? `${entry.url} — ${entry.failure}` : entry.url,
+    ]);
+    const header = ['Status', 'Method', 'Type', 'Time', 'URL'];
+    const widths = header.map((title, column) =>
+      Math.max(title.length, ...rows.map((row) => row[column].length)),
+    );
+    // The URL is left unpadded; the Time column is right-aligned.
+    const formatRow = (row: string[]) =>
+      row
+        .map((cell, column) => {
+          if (column === row.length - 1) return cell;
+          return column === 3 ? cell.padStart(widths[column]) : cell.padEnd(widths[column]);
+        })
+        .join('  ');
+
+    this.write(`${indent}${formatRow(header)}\n`);
+    const detailIndent = `${indent}${' '.repeat(widths[0] + 2)}`;
+    const bodyWidth = Math.max(20, this.lineWidth() - detailIndent.length - 'body: '.length);
+    entries.forEach((entry, index) => {
+      this.write(this.paint('fail', `${indent}${formatRow(rows[index])}\n`));
+      const headers = { ...entry.requestHeaders, ...entry.responseHeaders };
+      for (const [name, value] of Object.entries(headers)) {
+        this.write(`${detailIndent}${name}: ${value}\n`);
+      }
+      if (entry.body) {
+        const body = entry.body.replace(/\s+/g, ' ').trim();
+        this.write(`${detailIndent}body: ${this.truncate(body, bodyWidth)}\n`);
+      }
+    });
+  }
+
+  private printConsoleEntries(entries: ConsoleEntry[], indent: string): void {
+    for (const [label, group] of this.groupConsoleEntries(entries)) {
+      this.write(this.paint('fail', `${indent}${label}:\n`));
+      for (const entry of group) {
+        const location = entry.location ? ` (${entry.location})` : '';
+        this.write(
+          this.paint('fail', `${indent}  [+${formatDuration(entry.time)}] ${entry.text}${location}\n`),
+        );
+        for (const frame of entry.stack?.split('\n').slice(1) ?? []) {
+          this.write(`${indent}    ${this.paint('stack', frame.trim())}\n`);
+        }
+      }
+    }
+  }
+
+  private groupConsoleEntries(entries: ConsoleEntry[]): [string, ConsoleEntry[]][] {
+    const levelOrder = ['error', 'warning', 'info', 'log', 'debug'];
+    const groups = new Map<string, ConsoleEntry[]>();
+    const sorted = [...entries].sort((a, b) => {
+      const rank = (entry: ConsoleEntry) =>
+        entry.type === 'pageerror'
+          ? -1
+          : levelOrder.includes(entry.level)
+            ? levelOrder.indexOf(entry.level)
+            : levelOrder.length;
+      return rank(a) - rank(b);
+    });
+    for (const entry of sorted) {
+      const label = entry.type === 'pageerror' ? 'Page errors' : `console.${entry.level}`;
+      groups.set(label, [...(groups.get(label) ?? []), entry]);
+    }
+    return [...groups];
+  }
+
+  private formatAttempt(attempt: AttemptRecord): string {
+    const summary = `Attempt ${attempt.retry + 1}: ${attempt.status} (${formatDuration(attempt.duration)})`;
+    const message = attempt.error?.message?.split('\n')[0];
+    return message ? `${summary} — ${message}` : summary;
+  }
+
+  private slowTag(test: TestRecord): string {
+    const threshold = this.options.slowTestThreshold;
+    if (threshold === undefined || test.status === 'skipped' || test.duration <= threshold) {
+      return '';
+    }
+
+    return ` (slow: ${(test.duration / 1000).toFixed(1)}s)`;
+  }
+
+  private workerTag(test: TestRecord, run: Run): string {
+    const show = this.options.showWorkerIndex ?? run.parallel;
+    if (!show || test.parallelIndex === undefined) {
+      return '';
+    }
+
+    return ` [w${test.parallelIndex}]`;
+  }
+
+  private printSpecResults(spec: SpecStats, run: Run): void {
+    const duration = formatSecondsText(spec.testTime);
+    const hasVideo = spec.videoPaths.size > 0;
+    const passed = spec.failing === 0;
+    const color = (text: string) =>
+      passed ? this.paint('pass', text) : this.paint('fail', text);
+
+    const quiet = this.options.verbosity === 'quiet';
+    if (quiet && passed) {
+      return;
+    }
+
+    // Streamed test lines are already out, so only whole blocks can be collapsed.
+    const collapsible = !this.options.streaming;
+    if (collapsible) {
+      this.startCiSection(spec, run);
+    }
+
+    if (this.options.streaming) {
+      // Another spec's lines may have streamed since; the results need their own header.
+      if (!quiet && this.streamingSpec !== spec.filePath) {
+        this.printSpecHeader(spec, run, true);
+      }
+      this.streamingSpec = undefined;
+    } else if (!quiet) {
+      this.printSpecHeader(spec, run);
+      for (const test of spec.tests) {
+        for (const line of this.testLines(test, run)) {
+          this.write(`${this.formatTestLine(line)}\n`);
+        }
+      }
+    }
+
+    // Quiet mode keeps only the (Failures) section of a failing spec.
+    if (quiet) {
+      this.writeSeparator();
+    } else {
+      this.write(`\n${this.heading('(Results)')}`);
+      this.writeBox(
+        [
+          this.formatKv('Tests', String(spec.total)),
+          this.formatKv('Passing', String(spec.passing)),
+          this.formatKv('Failing', String(spec.failing)),
+          this.formatKv('Flaky', String(spec.flaky)),
+          this.formatKv('Pending', String(spec.pending)),
+          this.formatKv('Skipped', String(spec.skipped)),
+          this.formatKv('Screenshots', String(spec.screenshotPaths.size)),
+          this.formatKv('Video', String(hasVideo)),
+          this.formatKv('Duration', duration),
+          ...(run.parallel
+            ? [this.formatKv('Wall Time', formatSecondsText(spec.endedAt - spec.startedAt))]
+            : []),
+          this.formatKv(
+            'Spec Ran',
+            this.truncate(spec.fileName, this.rowWidth() - 2 - 'Spec Ran: '.length),
+          ),
+        ],
+        color,
+      );
+    }
+
+    const specFailures = run.failures.filter(
+      (failure) => failure.filePath === spec.filePath,
+    );
+
+    if (specFailures.length > 0) {
+      this.write(`\n${this.heading('(Failures)')}`);
+
+      type FailureGroup = { key: string; entries: typeof specFailures };
+      const groups: FailureGroup[] = [];
+      for (const failure of specFailures) {
+        const key = failure.titlePath.slice(2).join(' > ');
+        const existing = groups.find((g) => g.key === key);
+        if (existing) {
+          existing.entries.push(failure);
+        } else {
+          groups.push({ key, entries: [failure] });
+        }
+      }
+
+      const attemptSummary = (failure: (typeof specFailures)[0]): string =>
+        (failure.attempts ?? [])
+          .map((a) => `${a.status}:${a.error?.message ?? ''}`)
+          .join('\n');
+
+      const allSameError = (entries: typeof specFailures): boolean =>
+        entries.length > 1 &&
+        entries[0].error?.message !== undefined &&
+        entries.every((e) => e.error?.message === entries[0].error!.message) &&
+        entries.every((e) => attemptSummary(e) === attemptSummary(entries[0]));
+
+      const allSameAttachments = (entries: typeof specFailures): boolean =>
+        entries.every(
+          (e) =>
+            e.networkFailures === entries[0].networkFailures &&
+            e.consoleErrors === entries[0].consoleErrors,
+        );
+
+      const printErrorAndStack = (failure: (typeof specFailures)[0]) => {
+        if (failure.strict) {
+          this.write(this.paint('fail', `     (Strict Mode) ${this.strictLabel(failure.strict)}\n`));
+        }
+        for (const line of failureMessage(failure).split('\n')) {
+          this.write(this.paint('fail', `     ${line}\n`));
+        }
+        const codeFrame = failure.error ? this.codeFrame(failure.error) : [];
+        if (codeFrame.length > 0) {
+          this.write('\n');
+          for (const line of codeFrame) {
+            this.write(`     ${line.focus ? this.paint('fail', line.text) : line.text}\n`);
+          }
+        }
+        if (failure.error?.stack) {
+          const frames = failure.error.stack.split('\n').filter((l) => this.isUserFrame(l));
+          if (frames.length > 0) {
+            this.write('\n');
+            for (const line of frames) {
+              this.write(`     ${this.paint('stack', formatStackLine(line))}\n`);
+            }
+          }
+        }
+        if (failure.attempts) {
+          this.write('\n');
+          this.write(this.paint('fail', `     (Attempts)\n`));
+          for (const attempt of failure.attempts) {
+            this.write(this.paint('fail', `       ${this.formatAttempt(attempt)}\n`));
+          }
+        }
+      };
+
+      const printAttachments = (failure: (typeof specFailures)[0]) => {
+        if (failure.networkEntries) {
+          this.write('\n');
+          this.write(this.paint('fail', `     (Network Issues)\n`));
+          const pages = groupByPage(failure.networkEntries);
+          for (const [page, entries] of pages) {
+            if (pages.length > 1) {
+              this.write(`       ${page}:\n`);
+            }
+            this.printNetworkTable(entries, pages.length > 1 ? '         ' : '       ');
+          }
+        } else if (failure.networkFailures) {
+          this.write('\n');
+          this.write(this.paint('fail', `     (Network Issues)\n`));
+          for (const line of failure.networkFailures.split('\n')) {
+            this.write(this.paint('fail', `       ${line}\n`));
+          }
+        }
+        if (failure.consoleEntries) {
+          this.write('\n');
+          this.write(this.paint('fail', `     (Console Issues)\n`));
+          const pages = groupByPage(failure.consoleEntries);
+          for (const [page, entries] of pages) {
+            if (pages.length > 1) {
+              this.write(`       ${page}:\n`);
+            }
+            this.printConsoleEntries(entries, pages.length > 1 ? '         ' : '       ');
+          }
+        } else if (failure.consoleErrors) {
+          this.write('\n');
+          this.write(this.paint('fail', `     (Console Issues)\n`));
+          for (const line of failure.consoleErrors.split('\n')) {
+            this.write(this.paint('fail', `       ${line}\n`));
+          }
+        }
+        if (failure.suppressed) {
+          this.write('\n');
+          this.write(`     ${this.paint('heading', '(Ignored)')}\n`);
+          this.write(`       ${this.formatSuppressed(failure.suppressed)}\n`);
+        }
+      };
+
+      const printEntry = (failure: (typeof specFailures)[0]) => {
+        printErrorAndStack(failure);
+        printAttachments(failure);
+        this.write('\n');
+      };
+
+      groups.forEach(({ key, entries }, idx) => {
+        if (entries.length === 1) {
+          const fullTitle = entries[0].titlePath.slice(1).join(' > ');
+          this.write(this.paint('fail', `  ${idx + 1}) ${fullTitle}\n`));
+          printEntry(entries[0]);
+        } else if (allSameError(entries)) {
+          this.write(this.paint('fail', `  ${idx + 1}) ${key}\n`));
+          printErrorAndStack(entries[0]);
+          if (allSameAttachments(entries)) {
+            printAttachments(entries[0]);
+            this.write('\n');
+          } else {
+            this.write('\n');
+            for (const entry of entries) {
+              if (entry.networkFailures || entry.consoleErrors) {
+                this.write(this.paint('fail', `     [${entry.titlePath[1]}]\n`));
+                printAttachments(entry);
+                this.write('\n');
+              }
+            }
+          }
+        } else {
+          this.write(this.paint('fail', `  ${idx + 1}) ${key}\n`));
+          for (const entry of entries) {
+            const browser = entry.titlePath[1];
+            this.write(this.paint('fail', `\n     [${browser}]\n`));
+            printEntry(entry);
+          }
+        }
+      });
+    }
+
+    if (quiet) {
+      this.write('\n');
+      if (collapsible) {
+        this.endCiSection(spec, run);
+      }
+      return;
+    }
+
+    const flakyTests = spec.tests.filter((test) => test.outcome === 'flaky' && test.attempts);
+    if (flakyTests.length > 0) {
+      this.write(`\n${this.heading('(Flaky Details)')}`);
+      flakyTests.forEach((test, idx) => {
+        this.write(`  ${idx + 1}) ${test.titlePath.slice(1).join(' > ')}\n`);
+        for (const attempt of test.attempts!) {
+          if (attempt.status !== 'passed') {
+            this.write(this.paint('fail', `     ${this.formatAttempt(attempt)}\n`));
+          }
+        }
+        this.write('\n');
+      });
+    }
+
+    if (this.options.showScreenshots && spec.screenshotPaths.size > 0) {
+      this.write(`\n${this.heading('(Screenshots)')}`);
+      for (const p of spec.screenshotPaths) {
+        this.write(`  -  Screenshot: ${this.paint('path', path.relative(process.cwd(), p))}\n`);
+      }
+    }
+
+    if (this.options.showVideos && hasVideo) {
+      this.write(`\n${this.heading('(Video)')}`);
+      for (const p of spec.videoPaths) {
+        this.write(`  -  Video output: ${this.paint('path', path.relative(process.cwd(), p))}\n`);
+      }
+    }
+
+    this.write('\n');
+    if (collapsible) {
+      this.endCiSection(spec, run);
+    }
+  }
+
+  private printSpecHeader(spec: SpecStats, run: Run, resumed = false): void {
+    const specs = run.specs;
+    const specIndex = specs.indexOf(spec) + 1;
+    const running = `Running:  ${spec.fileName} (${specIndex} of ${specs.length})`;
+    if (resumed) {
+      this.write(`\n  ${running} (continued)\n\n`);
+    } else {
+      this.writeSeparator();
+      this.write(`\n  ${running}\n\n`);
+    }
+    this.streamingSpec = spec.filePath;
+  }
+
+  private renderProgress(run: Run): void {
+    if (!this.options.progress || !this.options.stdout || !process.stdout.isTTY) {
+      return;
+    }
+
+    const total = run.totals.tests;
+    const percent = total ? Math.floor((run.completedTests / total) * 100) : 100;
+    process.stdout.write(
+      `\r\u001b[2K  Progress: ${run.completedTests}/${total} tests (${percent}%)`,
+    );
+    this.progressVisible = true;
+  }
+
+  private clearProgress(): void {
+    if (!this.progressVisible) {
+      return;
+    }
+
+    process.stdout.write('\r\u001b[2K');
+    this.progressVisible = false;
+  }
+
+  private lineWidth(): number {
+    const columns = process.stdout.columns || 110;
+    return Math.max(
+      this.options.minLineWidth,
+      Math.min(this.options.maxLineWidth, columns - 10),
+    );
+  }
+
+  private rowWidth(): number {
+    return this.lineWidth() - 4;
+  }
+
+  private writeSeparator(): void {
+    this.write(`  ${'─'.repeat(this.lineWidth())}\n`);
+  }
+
+  private writeBox(lines: string[], colorFn?: (text: string) => string): void {
+    const top = `  ┌${'─'.repeat(this.rowWidth())}┐\n`;
+    const bottom = `  └${'─'.repeat(this.rowWidth())}┘\n`;
+    this.write(colorFn ? colorFn(top) : top);
+    for (const line of lines) {
+      for (const wrapped of this.wrapLine(line, this.rowWidth() - 2)) {
+        const row = `  │ ${this.padRight(wrapped, this.rowWidth() - 2)} │\n`;
+        this.write(colorFn ? colorFn(row) : row);
+      }
+    }
+    this.write(colorFn ? colorFn(bottom) : bottom);
+  }
+
+  private wrapLine(text: string, width: number): string[] {
+    if (text.length <= width) {
+      return [text];
+    }
+
+    const words = text.split(' ');
+    const result: string[] = [];
+    let current = '';
+
+    for (const word of words) {
+      if (word.length > width) {
+        if (current) {
+          result.push(current);
+          current = '';
+        }
+        for (let index = 0; index < word.length; index += width) {
+          result.push(word.slice(index, index + width));
+        }
+        continue;
+      }
+
+      const candidate = current ? `${current} ${word}` : word;
+      if (candidate.length <= width) {
+        current = candidate;
+      } else {
+        if (current) {
+          result.push(current);
+        }
+        current = word;
+      }
+    }
+
+    if (current) {
+      result.push(current);
+    }
+
+    return result;
+  }
+
+  private padRight(value: string, width: number): string {
+    if (value.length >= width) {
+      return value.slice(0, width);
+    }
+
+    return value + ' '.repeat(width - value.length);
+  }
+
+  private truncate(value: string, max: number): string {
+    if (value.length <= max) {
+      return value;
+    }
+
+    return `${value.slice(0, Math.max(0, max - 1))}…`;
+  }
+
+  private formatKv(label: string, value: string): string {
+    return `${label}: ${value}`;
+  }
+
+  private isUserFrame(line: string): boolean {
+    return isUserFrame(line, this.options.hiddenFrames);
+  }
+
+  private getSearchedDisplay(filePaths: string[]): string {
+    if (filePaths.length === 0) {
+      return '.';
+    }
+
+    const normalized = filePaths.map((filePath) =>
+      filePath.replace(/\\/g, '/'),
+    );
+    let prefix = normalized[0];
+
+    for (let index = 1; index < normalized.length; index += 1) {
+      while (!normalized[index].startsWith(prefix) && prefix.length > 0) {
+        prefix = prefix.slice(0, -1);
+      }
+    }
+
+    const slashIndex = prefix.lastIndexOf('/');
+    if (slashIndex <= 0) {
+      return '.';
+    }
+
+    const absolutePrefix = path.resolve(prefix.slice(0, slashIndex));
+    const relativePrefix = path.relative(process.cwd(), absolutePrefix);
+
+    if (!relativePrefix || relativePrefix === '.') {
+      return '.';
+    }
+
+    return relativePrefix.replace(/\\/g, '/');
+  }
+
+  /** `stdout` targets CI workflow commands and markers, which mean nothing in `outputFile`. */
+  private write(message: string, destination: 'all' | 'stdout' = 'all'): void {
+    if (this.options.stdout) {
+      this.clearProgress();
+      process.stdout.write(this.options.color ? message : stripAnsi(message));
+    }
+    if (this.outputFd !== undefined && destination === 'all') {
+      fs.writeSync(
+        this.outputFd,
+        this.options.outputFileColor ? message : stripAnsi(message),
+      );
+    }
+  }
+
+  private openOutputFile(): void {
+    if (!this.options.outputFile || this.outputFd !== undefined) {
+      return;
+    }
+
+    const filePath = path.resolve(this.options.configDir, this.options.outputFile);
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      this.outputFd = fs.openSync(filePath, 'w');
+    } catch (error) {
+      process.stderr.write(
+        `playwright-terminal-reporter: could not open outputFile "${filePath}": ${(error as Error).message}\n`,
+      );
+    }
+  }
+
+  private closeOutputFile(): void {
+    if (this.outputFd === undefined) {
+      return;
+    }
+
+    fs.closeSync(this.outputFd);
+    this.outputFd = undefined;
+  }
+
+  private formatTestLine(line: TestLine): string {
+    return line.tone ? this.paint(line.tone, line.text) : line.text;
+  }
+
+  private paint(element: ThemeElement, value: string): string {
+    if (!this.useColor) {
+      return value;
+    }
+
+    return this.theme[element](value);
+  }
+
+  private heading(title: string): string {
+    return `  ${this.paint('heading', title)}\n\n`;
+  }
+}
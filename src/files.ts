@@ -0,0 +1,14 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Writes a report file, creating its directory. Failures are reported on stderr, not thrown. */
+export function writeReportFile(filePath: string, content: string): void {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  } catch (error) {
+    process.stderr.write(
+      `playwright-terminal-reporter: could not write "${filePath}": ${(error as Error).message}\n`,
+    );
+  }
+}
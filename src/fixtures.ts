@@ -1,47 +1,73 @@
 import { test as base, expect, type Page } from '@playwright/test';
 import { type TestInfo } from '@playwright/test';
+import { capturePageReport } from './capture';
 
-export const test = base.extend<{ page: Page }>({
-  page: async ({ page }: { page: Page }, use: (page: Page) => Promise<void>, testInfo: TestInfo) => {
-    const consoleMessages: string[] = [];
-    const networkFailures: string[] = [];
+export type { ConsoleEntry, NetworkEntry } from './types';
 
-    page.on('console', (msg) => {
-      if (msg.type() === 'error' || msg.type() === 'warning') {
-        consoleMessages.push(`[console.${msg.type()}] ${msg.text()}`);
-      }
-    });
+export type ConsoleReportOptions = {
+  /** Console message types to capture, e.g. `['error', 'warning', 'info']`. */
+  consoleReportLevels: string[];
+  /** Request and response headers (lower-case) recorded for each network failure. */
+  networkReportHeaders: string[];
+  /** Maximum number of characters of a 4xx/5xx response body to record. `0` disables bodies. */
+  networkReportBodyLimit: number;
+  /** Console messages and page errors whose text contains a string or matches a RegExp are ignored. */
+  consoleReportIgnore: Array<string | RegExp>;
+  /** Network failures whose URL contains a string or matches a RegExp are ignored. */
+  networkReportIgnoreUrls: Array<string | RegExp>;
+  /** Responses with these HTTP status codes are ignored. */
+  networkReportIgnoreStatuses: number[];
+  /**
+   * Fail a passing test when the page logged a console error or threw an uncaught
+   * exception. Console errors count even when `consoleReportLevels` leaves them out.
+   */
+  failOnConsoleError: boolean;
+  /** Fail a passing test when a request failed or returned 4xx/5xx. */
+  failOnNetworkFailure: boolean;
+};
 
-    page.on('requestfailed', (request) => {
-      networkFailures.push(
-        `[failed] ${request.method()} ${request.url()} — ${request.failure()?.errorText ?? 'unknown'}`,
-      );
-    });
+export const test = base.extend<{ page: Page } & ConsoleReportOptions>({
+  consoleReportLevels: [['error', 'warning'], { option: true }],
+  networkReportHeaders: [['content-type', 'x-request-id', 'x-correlation-id'], { option: true }],
+  networkReportBodyLimit: [2000, { option: true }],
+  consoleReportIgnore: [[], { option: true }],
+  networkReportIgnoreUrls: [[], { option: true }],
+  networkReportIgnoreStatuses: [[], { option: true }],
+  failOnConsoleError: [false, { option: true }],
+  failOnNetworkFailure: [false, { option: true }],
 
-    page.on('response', (response) => {
-      if (response.status() >= 400) {
-        networkFailures.push(
-          `[${response.status()}] ${response.request().method()} ${response.url()}`,
-        );
-      }
-    });
-
-    await use(page);
-
-    if (testInfo.status !== testInfo.expectedStatus) {
-      if (consoleMessages.length > 0) {
-        await testInfo.attach('console-errors', {
-          body: consoleMessages.join('\n'),
-          contentType: 'text/plain',
-        });
-      }
-      if (networkFailures.length > 0) {
-        await testInfo.attach('network-failures', {
-          body: networkFailures.join('\n'),
-          contentType: 'text/plain',
-        });
-      }
-    }
+  // Playwright reads the fixture names from this parameter list, so the options are spelled out.
+  page: async (
+    {
+      page,
+      consoleReportLevels,
+      networkReportHeaders,
+      networkReportBodyLimit,
+      consoleReportIgnore,
+      networkReportIgnoreUrls,
+      networkReportIgnoreStatuses,
+      failOnConsoleError,
+      failOnNetworkFailure,
+    }: { page: Page } & ConsoleReportOptions,
+    use: (page: Page) => Promise<void>,
+    testInfo: TestInfo,
+  ) => {
+    await capturePageReport(
+      page,
+      page.context(),
+      {
+        consoleReportLevels,
+        networkReportHeaders,
+        networkReportBodyLimit,
+        consoleReportIgnore,
+        networkReportIgnoreUrls,
+        networkReportIgnoreStatuses,
+        failOnConsoleError,
+        failOnNetworkFailure,
+      },
+      use,
+      testInfo,
+    );
   },
 });
 
@@ -0,0 +1,101 @@
+import type { TestError } from '@playwright/test/reporter';
+import * as path from 'path';
+import { parseStackLocation, type FrameLocation } from './codeframe';
+import type { FailedTest } from './types';
+
+export function formatDuration(durationMs: number): string {
+  return durationMs < 1000
+    ? `${durationMs}ms`
+    : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+export function formatClockDuration(durationMs: number): string {
+  const totalSeconds = Math.max(0, Math.floor(durationMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60)
+    .toString()
+    .padStart(2, '0');
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return `${minutes}:${seconds}`;
+}
+
+export function formatSecondsText(durationMs: number): string {
+  const seconds = Math.max(0, Math.round(durationMs / 1000));
+  return seconds === 1 ? '1 second' : `${seconds} seconds`;
+}
+
+export function getFileName(filePath: string): string {
+  const normalized = filePath.replace(/\\/g, '/');
+  return normalized.substring(normalized.lastIndexOf('/') + 1);
+}
+
+/** Path relative to the working directory, with forward slashes. */
+export function relativePath(filePath: string): string {
+  return path.relative(process.cwd(), filePath).replace(/\\/g, '/');
+}
+
+export function stripAnsi(value: string): string {
+  return value.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+/**
+ * The title followed by the test's tags. Playwright also lists the `@tags`
+ * written in the title, so those are not repeated.
+ */
+export function titleWithTags(title: string, tags: string[]): string {
+  const words = title.split(/\s+/);
+  return [title, ...tags.filter((tag) => !words.includes(tag))].join(' ');
+}
+
+/** The error message of a failure, or why there is none. */
+export function failureMessage(failure: FailedTest): string {
+  return failure.error?.message
+    ? failure.error.message
+    : failure.unexpectedPass
+      ? 'Test was expected to fail but passed'
+      : 'No error message available';
+}
+
+/**
+ * Whether `value` contains any string pattern or matches any RegExp. Uses
+ * `search` so a `g` or `y` RegExp does not carry `lastIndex` between calls.
+ */
+export function matchesAny(patterns: Array<string | RegExp>, value: string): boolean {
+  return patterns.some((pattern) =>
+    typeof pattern === 'string' ? value.includes(pattern) : value.search(pattern) !== -1,
+  );
+}
+
+export function isUserFrame(line: string, hiddenFrames: Array<string | RegExp>): boolean {
+  const t = line.trimStart();
+  if (!t.startsWith('at ')) return false;
+  return !matchesAny(hiddenFrames, t);
+}
+
+/** A stack frame with its absolute path made relative to the working directory. */
+export function formatStackLine(line: string): string {
+  const location = parseStackLocation(line);
+  if (!location || !path.isAbsolute(location.file)) {
+    return line;
+  }
+  // Covers `at fn (/a/b.ts:1:2)`, the bare `at /a/b.ts:1:2` and `file://` URLs.
+  const index = line.lastIndexOf(`${location.file}:${location.line}:${location.column}`);
+  const before = line.slice(0, index).replace(/file:\/\/$/, '');
+  return `${before}${path.relative(process.cwd(), location.file)}${line.slice(index + location.file.length)}`;
+}
+
+/** Stack frames outside `hiddenFrames`, trimmed and relative to the working directory. */
+export function userFrames(stack: string, hiddenFrames: Array<string | RegExp>): string[] {
+  return stack
+    .split('\n')
+    .filter((line) => isUserFrame(line, hiddenFrames))
+    .map((line) => formatStackLine(line).trim());
+}
+
+/** The first user stack frame of an error, falling back to Playwright's `location`. */
+export function errorLocation(
+  error: TestError,
+  hiddenFrames: Array<string | RegExp>,
+): FrameLocation | undefined {
+  const userFrame = error.stack?.split('\n').find((line) => isUserFrame(line, hiddenFrames));
+  return (userFrame && parseStackLocation(userFrame)) || error.location;
+}
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import type { TestOutcome, TestRecord } from './types';
+
+export const HISTORY_VERSION = 1;
+
+export type HistoryEntry = {
+  outcome: TestOutcome;
+  duration: number;
+};
+
+export type HistoryRun = {
+  /** ISO-8601 timestamp of the run start. */
+  startedAt: string;
+  /** Keyed by `historyKey()` of each test. */
+  tests: Record<string, HistoryEntry>;
+};
+
+export type HistoryFile = {
+  version: number;
+  runs: HistoryRun[];
+};
+
+export type HistoryInsight =
+  | { kind: 'new-failure'; key: string }
+  | { kind: 'still-failing'; key: string; runs: number }
+  | { kind: 'fixed'; key: string }
+  | { kind: 'flaky'; key: string; flaky: number; runs: number }
+  | { kind: 'slower'; key: string; duration: number; median: number };
+
+// Fewer samples than this make the median too noisy to call a regression.
+const MIN_DURATION_SAMPLES = 3;
+
+// Passing → failing → passing is a fix; one more switch between the two makes a test flaky.
+const MIN_FLAKY_SWITCHES = 3;
+
+export function historyKey(titlePath: string[]): string {
+  return titlePath.slice(1).join(' › ');
+}
+
+export function readHistory(filePath: string): HistoryFile {
+  if (!fs.existsSync(filePath)) {
+    return { version: HISTORY_VERSION, runs: [] };
+  }
+
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as HistoryFile;
+  if (data?.version !== HISTORY_VERSION || !Array.isArray(data.runs)) {
+    throw new Error(`${filePath} is not a history file version ${HISTORY_VERSION}`);
+  }
+  return data;
+}
+
+export function buildHistoryRun(startTime: number, tests: TestRecord[]): HistoryRun {
+  const run: HistoryRun = { startedAt: new Date(startTime).toISOString(), tests: {} };
+  for (const test of tests) {
+    run.tests[historyKey(test.titlePath)] = { outcome: test.outcome, duration: test.duration };
+  }
+  return run;
+}
+
+/**
+ * Compares the current run with the previous ones (oldest first). Each test
+ * yields at most one status insight (new failure, still failing, fixed or
+ * flaky) plus a `slower` insight when its duration regressed. `flaky` counts
+ * the failed and flaky outcomes of the recent runs.
+ */
+export function analyzeHistory(
+  previous: HistoryRun[],
+  current: HistoryRun,
+  regressionFactor: number,
+): HistoryInsight[] {
+  const insights: HistoryInsight[] = [];
+
+  for (const [key, entry] of Object.entries(current.tests)) {
+    const past = previous
+      .map((run) => run.tests[key])
+      .filter((test): test is HistoryEntry => test !== undefined);
+    const last = past[past.length - 1];
+    const recent = [...past, entry];
+    const unstable = recent.filter((test) => test.outcome === 'failed' || test.outcome === 'flaky').length;
+
+    // Without retries a flaky test fails in some runs and passes in others. A test that broke
+    // and was fixed switched twice; more switches than that are reported as flaky instead.
+    if (switches(recent) >= MIN_FLAKY_SWITCHES) {
+      insights.push({ kind: 'flaky', key, flaky: unstable, runs: recent.length });
+    } else if (entry.outcome === 'failed') {
+      let runs = 1;
+      while (runs <= past.length && past[past.length - runs].outcome === 'failed') {
+        runs += 1;
+      }
+      insights.push(runs > 1 ? { kind: 'still-failing', key, runs } : { kind: 'new-failure', key });
+    } else if (last?.outcome === 'failed' && (entry.outcome === 'passed' || entry.outcome === 'flaky')) {
+      insights.push({ kind: 'fixed', key });
+    } else if (entry.outcome === 'passed' || entry.outcome === 'flaky') {
+      if (recent.some((test) => test.outcome === 'flaky')) {
+        insights.push({ kind: 'flaky', key, flaky: unstable, runs: recent.length });
+      }
+    }
+
+    if (entry.outcome === 'passed' || entry.outcome === 'flaky') {
+      const durations = past
+        .filter((test) => test.outcome === 'passed' || test.outcome === 'flaky')
+        .map((test) => test.duration);
+      if (durations.length >= MIN_DURATION_SAMPLES) {
+        const median = medianOf(durations);
+        if (median > 0 && entry.duration > median * regressionFactor) {
+          insights.push({ kind: 'slower', key, duration: entry.duration, median });
+        }
+      }
+    }
+  }
+
+  return insights;
+}
+
+/** How often consecutive runs went from failing to passing or back. Skipped runs are left out. */
+function switches(entries: HistoryEntry[]): number {
+  const failing = entries
+    .filter((test) => test.outcome !== 'skipped' && test.outcome !== 'pending')
+    .map((test) => test.outcome === 'failed');
+  return failing.filter((value, index) => index > 0 && value !== failing[index - 1]).length;
+}
+
+function medianOf(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,207 @@
+import type { FullResult } from '@playwright/test/reporter';
+import { failureMessage, formatDuration, stripAnsi, titleWithTags } from './format';
+import type { FailedTest, RunTotals, SpecStats, TestRecord } from './types';
+
+export type HtmlReportInput = {
+  status: FullResult['status'];
+  startTime: number;
+  endTime: number;
+  browserDisplay: string;
+  totals: RunTotals;
+  specs: SpecStats[];
+  failures: FailedTest[];
+  relativePath: (filePath: string) => string;
+  userFrames: (stack: string) => string[];
+  formatDuration: (ms: number) => string;
+  /** Path of an attachment relative to the HTML file, for links. */
+  linkPath: (filePath: string) => string;
+  /** `data:` URI of a screenshot, or `undefined` when it cannot be read. */
+  embedImage: (filePath: string) => string | undefined;
+};
+
+const STYLE = `
+body { font: 14px/1.45 -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 2em auto; max-width: 1100px; padding: 0 1em; color: #1f2328; }
+h1 { font-size: 1.4em; } h2 { font-size: 1.1em; margin-top: 1.6em; } h3 { font-size: 1em; margin: 1.2em 0 0.4em; }
+pre { background: #f6f8fa; padding: 0.6em 0.8em; overflow-x: auto; border-radius: 4px; }
+table { border-collapse: collapse; } th, td { padding: 0.25em 0.7em; border-bottom: 1px solid #d0d7de; }
+td.n, th.n { text-align: right; font-variant-numeric: tabular-nums; }
+details.spec { border: 1px solid #d0d7de; border-radius: 6px; margin: 0.6em 0; padding: 0.4em 0.8em; }
+details.spec > summary { cursor: pointer; font-weight: 600; }
+ul.tests { list-style: none; padding-left: 0.5em; font-family: ui-monospace, monospace; white-space: pre-wrap; }
+.pass { color: #1a7f37; } .fail { color: #cf222e; }
+.failure { border-left: 3px solid #cf222e; padding-left: 0.8em; margin: 1em 0; }
+img.thumb { max-width: 240px; max-height: 180px; border: 1px solid #d0d7de; margin: 0.3em 0.3em 0 0; }
+`;
+
+/** A self-contained HTML page mirroring the console report, for readers without a terminal. */
+export function buildHtmlReport(input: HtmlReportInput): string {
+  const passed = input.totals.failed === 0;
+  const duration = input.formatDuration(Math.max(0, input.endTime - input.startTime));
+  const body = [
+    `<h1 class="${passed ? 'pass' : 'fail'}">${passed ? '✔' : '✖'} Playwright: ${escapeHtml(input.status.toUpperCase())}</h1>`,
+    renderRunInfo(input, duration),
+    '<h2>Specs</h2>',
+    ...input.specs.map((spec) => renderSpec(spec, input)),
+    '<h2>Summary</h2>',
+    renderSummaryTable(input, duration),
+  ];
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>Playwright report — ${escapeHtml(input.status)}</title>`,
+    `<style>${STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function renderRunInfo(input: HtmlReportInput, duration: string): string {
+  const rows: Array<[string, string]> = [
+    ['Started', new Date(input.startTime).toISOString()],
+    ['Duration', duration],
+    ['Browser', input.browserDisplay],
+    ['Specs', String(input.specs.length)],
+    ['Tests', String(input.totals.tests)],
+  ];
+  return `<table class="run">${rows
+    .map(([key, value]) => `<tr><th>${key}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('')}</table>`;
+}
+
+function renderSpec(spec: SpecStats, input: HtmlReportInput): string {
+  const failed = spec.failing > 0;
+  const failures = input.failures.filter((failure) => failure.filePath === spec.filePath);
+  const parts = [
+    `<details class="spec"${failed ? ' open' : ''}>`,
+    `<summary class="${failed ? 'fail' : 'pass'}">${failed ? '✖' : '✔'} ${escapeHtml(input.relativePath(spec.filePath))}` +
+      ` — ${spec.passing}/${spec.total} passed, ${escapeHtml(input.formatDuration(spec.testTime))}</summary>`,
+    `<ul class="tests">${spec.tests.map(renderTest).join('')}</ul>`,
+    renderCounters(spec),
+  ];
+
+  if (failures.length > 0) {
+    parts.push('<h3>Failures</h3>', ...failures.map((failure) => renderFailure(failure, input)));
+  }
+  if (spec.screenshotPaths.size > 0) {
+    parts.push('<h3>Screenshots</h3>', '<div>');
+    for (const screenshot of spec.screenshotPaths) {
+      const href = escapeHtml(input.linkPath(screenshot));
+      const image = input.embedImage(screenshot);
+      parts.push(
+        image
+          ? `<a href="${href}"><img class="thumb" src="${image}" alt="${href}"></a>`
+          : `<a href="${href}">${href}</a>`,
+      );
+    }
+    parts.push('</div>');
+  }
+  if (spec.videoPaths.size > 0) {
+    parts.push('<h3>Video</h3>', '<ul>');
+    for (const video of spec.videoPaths) {
+      const href = escapeHtml(input.linkPath(video));
+      parts.push(`<li><a href="${href}">${href}</a></li>`);
+    }
+    parts.push('</ul>');
+  }
+
+  parts.push('</details>');
+  return parts.join('\n');
+}
+
+function renderTest(test: TestRecord): string {
+  const title = escapeHtml(titleWithTags(test.title, test.tags));
+  const duration = formatDuration(test.duration);
+  const [tone, text] =
+    test.outcome === 'passed'
+      ? ['pass', `✔ ${title} (${duration})${test.status === 'failed' ? ' (expected failure)' : ''}`]
+      : test.outcome === 'flaky'
+        ? ['pass', `~ ${title} (${duration}) (flaky)`]
+        : test.outcome === 'failed'
+          ? ['fail', `✖ ${title} (${duration})${test.status === 'passed' ? ' (unexpected pass)' : ''}`]
+          : ['', `- ${title} (${test.outcome === 'pending' ? 'fixme' : 'skipped'})`];
+  const annotations = test.annotations
+    .filter((annotation) => annotation.description)
+    .map((annotation) => `\n    @${escapeHtml(annotation.type)}: ${escapeHtml(annotation.description!)}`)
+    .join('');
+  return `<li${tone ? ` class="${tone}"` : ''}>${text}${annotations}</li>`;
+}
+
+function renderCounters(spec: SpecStats): string {
+  const counters: Array<[string, number]> = [
+    ['Tests', spec.total],
+    ['Passing', spec.passing],
+    ['Failing', spec.failing],
+    ['Flaky', spec.flaky],
+    ['Pending', spec.pending],
+    ['Skipped', spec.skipped],
+  ];
+  return `<table><tr>${counters.map(([label]) => `<th class="n">${label}</th>`).join('')}</tr>` +
+    `<tr>${counters.map(([, value]) => `<td class="n">${value}</td>`).join('')}</tr></table>`;
+}
+
+function renderFailure(failure: FailedTest, input: HtmlReportInput): string {
+  const message = failureMessage(failure);
+  const stack = failure.error?.stack ? input.userFrames(failure.error.stack) : [];
+  const parts = [
+    '<div class="failure">',
+    `<strong class="fail">${escapeHtml(failure.titlePath.slice(1).join(' › '))}</strong>`,
+    `<pre>${escapeHtml(message)}</pre>`,
+  ];
+  if (stack.length > 0) {
+    parts.push(`<pre>${escapeHtml(stack.join('\n'))}</pre>`);
+  }
+  if (failure.networkFailures) {
+    parts.push('<h4>Network issues</h4>', `<pre>${escapeHtml(failure.networkFailures)}</pre>`);
+  }
+  if (failure.consoleErrors) {
+    parts.push('<h4>Console issues</h4>', `<pre>${escapeHtml(failure.consoleErrors)}</pre>`);
+  }
+  parts.push('</div>');
+  return parts.join('\n');
+}
+
+function renderSummaryTable(input: HtmlReportInput, duration: string): string {
+  const header = ['Duration', 'Total', 'Passed', 'Failed', 'Flaky', 'Pending', 'Skipped'];
+  const row = (icon: string, label: string, time: string, counts: number[], tone: string) =>
+    `<tr class="${tone}"><td>${icon}</td><td>${escapeHtml(label)}</td><td class="n">${escapeHtml(time)}</td>` +
+    `${counts.map((count) => `<td class="n">${count}</td>`).join('')}</tr>`;
+  const { totals } = input;
+
+  return [
+    '<table class="summary">',
+    `<tr><th></th><th>Spec</th>${header.map((title) => `<th class="n">${title}</th>`).join('')}</tr>`,
+    ...input.specs.map((spec) =>
+      row(
+        spec.failing > 0 ? '✖' : '✔',
+        spec.fileName,
+        input.formatDuration(spec.testTime),
+        [spec.total, spec.passing, spec.failing, spec.flaky, spec.pending, spec.skipped],
+        spec.failing > 0 ? 'fail' : 'pass',
+      ),
+    ),
+    row(
+      totals.failed > 0 ? '✖' : '✔',
+      totals.failed > 0 ? 'Some specs failed' : 'All specs passed!',
+      duration,
+      [totals.tests, totals.passed, totals.failed, totals.flaky, totals.pending, totals.skipped],
+      totals.failed > 0 ? 'fail' : 'pass',
+    ),
+    '</table>',
+  ].join('\n');
+}
+
+export function escapeHtml(value: string): string {
+  return stripAnsi(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
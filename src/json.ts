@@ -0,0 +1,139 @@
+import type { FullResult } from '@playwright/test/reporter';
+import { stripAnsi } from './format';
+import type {
+  ConsoleEntry,
+  FailedTest,
+  NetworkEntry,
+  RunTotals,
+  SpecStats,
+  StrictViolations,
+  SuppressedCounts,
+} from './types';
+
+export const JSON_SCHEMA_VERSION = 1;
+
+/**
+ * Shape of the file written to `jsonOutputFile`. Additive changes keep the
+ * same `schemaVersion`; renaming or removing a field bumps it.
+ */
+export type JsonReport = {
+  schemaVersion: number;
+  reporter: 'playwright-terminal-reporter';
+  status: FullResult['status'];
+  /** ISO-8601 timestamp of `onBegin`. */
+  startedAt: string;
+  durationMs: number;
+  totals: JsonCounters;
+  specs: JsonSpec[];
+};
+
+/** `tests`, `passed`, `failed`, `flaky`, `pending` and `skipped` counts. */
+export type JsonCounters = RunTotals;
+
+export type JsonSpec = JsonCounters & {
+  /** Spec path relative to the working directory, with forward slashes. */
+  file: string;
+  fileName: string;
+  /** Sum of every test attempt's duration in this spec. */
+  durationMs: number;
+  /** Time from the spec's first test starting to its last test finishing. */
+  wallTimeMs: number;
+  failures: JsonFailure[];
+};
+
+export type JsonFailure = {
+  /** Project name, i.e. `titlePath()[1]`. */
+  project: string;
+  /** `titlePath()` without the root suite: project, file, describe blocks and test title. */
+  titlePath: string[];
+  /** Error message, or `undefined` for an unexpected pass. */
+  message?: string;
+  unexpectedPass: boolean;
+  /** User stack frames, relative to the working directory. */
+  stack: string[];
+  /** Lines of the `console-errors` attachment. */
+  consoleErrors: string[];
+  /** Structured console messages and page errors, when attached by the fixtures. */
+  console?: ConsoleEntry[];
+  /** Lines of the `network-failures` attachment. */
+  networkFailures: string[];
+  /** Structured network failures, when attached by the fixtures. */
+  network?: NetworkEntry[];
+  /** Console and network entries the fixtures ignored, when any were. */
+  suppressed?: SuppressedCounts;
+  /** Set when the fixtures' strict modes failed an otherwise passing test. */
+  strict?: StrictViolations;
+  /** Every attempt, oldest first, when `retryDetails` is on and the test was retried. */
+  attempts?: JsonAttempt[];
+};
+
+export type JsonAttempt = {
+  retry: number;
+  status: string;
+  durationMs: number;
+  message?: string;
+};
+
+export type JsonReportInput = {
+  status: FullResult['status'];
+  startTime: number;
+  endTime: number;
+  totals: JsonCounters;
+  specs: SpecStats[];
+  failures: FailedTest[];
+  relativePath: (filePath: string) => string;
+  userFrames: (stack: string) => string[];
+};
+
+export function buildJsonReport(input: JsonReportInput): JsonReport {
+  return {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    reporter: 'playwright-terminal-reporter',
+    status: input.status,
+    startedAt: new Date(input.startTime).toISOString(),
+    durationMs: Math.max(0, input.endTime - input.startTime),
+    totals: input.totals,
+    specs: input.specs.map((spec) => ({
+      file: input.relativePath(spec.filePath),
+      fileName: spec.fileName,
+      durationMs: spec.testTime,
+      wallTimeMs: Math.max(0, spec.endedAt - spec.startedAt),
+      tests: spec.total,
+      passed: spec.passing,
+      failed: spec.failing,
+      flaky: spec.flaky,
+      pending: spec.pending,
+      skipped: spec.skipped,
+      failures: input.failures
+        .filter((failure) => failure.filePath === spec.filePath)
+        .map((failure) => ({
+          project: failure.titlePath[1] ?? '',
+          titlePath: failure.titlePath.slice(1),
+          message: plainText(failure.error?.message),
+          unexpectedPass: failure.unexpectedPass === true,
+          stack: failure.error?.stack ? input.userFrames(failure.error.stack) : [],
+          consoleErrors: splitLines(failure.consoleErrors),
+          console: failure.consoleEntries,
+          networkFailures: splitLines(failure.networkFailures),
+          network: failure.networkEntries,
+          suppressed: failure.suppressed,
+          strict: failure.strict,
+          attempts: failure.attempts?.map((attempt) => ({
+            retry: attempt.retry,
+            status: attempt.status,
+            durationMs: attempt.duration,
+            message: plainText(attempt.error?.message),
+          })),
+        })),
+    })),
+  };
+}
+
+// Playwright colours its messages; the JSON fields carry plain text.
+function plainText(text?: string): string | undefined {
+  return text === undefined ? undefined : stripAnsi(text);
+}
+
+function splitLines(text?: string): string[] {
+  return text ? stripAnsi(text).split('\n').filter((line) => line !== '') : [];
+}
@@ -0,0 +1,119 @@
+import { failureMessage, stripAnsi } from './format';
+import type { SpecStats, TestRecord } from './types';
+
+export type JunitReportInput = {
+  startTime: number;
+  endTime: number;
+  specs: SpecStats[];
+  relativePath: (filePath: string) => string;
+  userFrames: (stack: string) => string[];
+};
+
+/**
+ * Renders one `<testsuite>` per spec file from the same counters that feed
+ * the console table, so Jenkins trends match it exactly: flaky tests are
+ * passes, and both fixme (pending) and skipped tests are `<skipped>`.
+ */
+export function buildJunitReport(input: JunitReportInput): string {
+  const totals = { tests: 0, failures: 0, skipped: 0 };
+  const suites: string[] = [];
+
+  for (const spec of input.specs) {
+    const skipped = spec.pending + spec.skipped;
+    totals.tests += spec.total;
+    totals.failures += spec.failing;
+    totals.skipped += skipped;
+
+    const file = input.relativePath(spec.filePath);
+    const suiteAttributes = attributes({
+      name: file,
+      tests: spec.total,
+      failures: spec.failing,
+      skipped,
+      errors: 0,
+      time: seconds(spec.testTime),
+      timestamp: spec.startedAt ? new Date(spec.startedAt).toISOString() : undefined,
+    });
+    const cases = spec.tests.map((test) => renderTestCase(test, file, input));
+    suites.push(`  <testsuite ${suiteAttributes}>\n${cases.join('')}  </testsuite>\n`);
+  }
+
+  const rootAttributes = attributes({
+    name: 'playwright-terminal-reporter',
+    tests: totals.tests,
+    failures: totals.failures,
+    skipped: totals.skipped,
+    errors: 0,
+    time: seconds(input.endTime - input.startTime),
+  });
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<testsuites ${rootAttributes}>\n${suites.join('')}</testsuites>\n`
+  );
+}
+
+function renderTestCase(test: TestRecord, file: string, input: JunitReportInput): string {
+  const project = test.titlePath[1];
+  const title = test.titlePath.slice(3).join(' › ') || test.title;
+  const caseAttributes = attributes({
+    name: project ? `[${project}] ${title}` : title,
+    classname: file,
+    time: seconds(test.duration),
+  });
+
+  const children: string[] = [];
+  if (test.outcome === 'pending') {
+    children.push('      <skipped message="fixme"/>\n');
+  } else if (test.outcome === 'skipped') {
+    children.push('      <skipped/>\n');
+  } else if (test.outcome === 'flaky') {
+    children.push('      <system-out>Passed on retry (flaky)</system-out>\n');
+  } else if (test.outcome === 'failed' && test.failure) {
+    const { error, unexpectedPass, strict, consoleErrors, networkFailures } = test.failure;
+    const message = failureMessage(test.failure).split('\n')[0];
+    const body = [
+      error?.message,
+      ...(error?.stack ? input.userFrames(error.stack) : []),
+    ]
+      .filter((line): line is string => Boolean(line))
+      .join('\n');
+    const type = unexpectedPass ? 'unexpectedPass' : strict ? 'strictMode' : 'failure';
+    children.push(
+      `      <failure ${attributes({ message, type })}>` +
+        `${escapeXml(body)}</failure>\n`,
+    );
+    if (consoleErrors) {
+      children.push(`      <system-out>${escapeXml(consoleErrors)}</system-out>\n`);
+    }
+    if (networkFailures) {
+      children.push(`      <system-err>${escapeXml(networkFailures)}</system-err>\n`);
+    }
+  }
+
+  if (children.length === 0) {
+    return `    <testcase ${caseAttributes}/>\n`;
+  }
+  return `    <testcase ${caseAttributes}>\n${children.join('')}    </testcase>\n`;
+}
+
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(' ');
+}
+
+function seconds(durationMs: number): string {
+  return (Math.max(0, durationMs) / 1000).toFixed(3);
+}
+
+export function escapeXml(value: string): string {
+  return stripAnsi(value)
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,134 @@
+import type { FullResult } from '@playwright/test/reporter';
+import { failureMessage, stripAnsi } from './format';
+import type { FailedTest, RunTotals, SpecStats } from './types';
+
+export type MarkdownSummaryInput = {
+  status: FullResult['status'];
+  startTime: number;
+  endTime: number;
+  totals: RunTotals;
+  specs: SpecStats[];
+  failures: FailedTest[];
+  relativePath: (filePath: string) => string;
+  userFrames: (stack: string) => string[];
+  formatDuration: (ms: number) => string;
+  /** Upper bound for the length of the result; spec rows and failures that do not fit are left out. */
+  maxLength?: number;
+};
+
+// Room kept free for the notes that say what was left out.
+const TRUNCATION_RESERVE = 200;
+
+/**
+ * The final summary table and a collapsible block per failure as
+ * GitHub-flavoured Markdown, for job summaries and pull request comments.
+ */
+export function buildMarkdownSummary(input: MarkdownSummaryInput): string {
+  const { totals } = input;
+  const maxLength = input.maxLength ?? Infinity;
+  const budget = maxLength - TRUNCATION_RESERVE;
+  const icon = totals.failed > 0 ? '✖' : '✔';
+  const duration = input.formatDuration(Math.max(0, input.endTime - input.startTime));
+
+  let markdown = [
+    `### ${icon} Playwright: ${input.status.toUpperCase()}`,
+    '',
+    `**${totals.passed} passed**, ${totals.failed} failed, ${totals.flaky} flaky, ` +
+      `${totals.pending} pending, ${totals.skipped} skipped in ${duration}`,
+    '',
+    '| | Spec | Duration | Total | Passed | Failed | Flaky | Pending | Skipped |',
+    '|---|---|---:|---:|---:|---:|---:|---:|---:|',
+    '',
+  ].join('\n');
+
+  const totalsRow = row([
+    icon,
+    '**Total**',
+    duration,
+    totals.tests,
+    totals.passed,
+    totals.failed,
+    totals.flaky,
+    totals.pending,
+    totals.skipped,
+  ]);
+  let omittedSpecs = 0;
+  for (const spec of input.specs) {
+    const specRow = row([
+      spec.failing > 0 ? '✖' : '✔',
+      `\`${input.relativePath(spec.filePath)}\``,
+      input.formatDuration(spec.testTime),
+      spec.total,
+      spec.passing,
+      spec.failing,
+      spec.flaky,
+      spec.pending,
+      spec.skipped,
+    ]);
+    if (omittedSpecs > 0 || markdown.length + specRow.length + totalsRow.length > budget) {
+      omittedSpecs += 1;
+    } else {
+      markdown += specRow;
+    }
+  }
+  markdown += totalsRow;
+  if (omittedSpecs > 0) {
+    markdown += `\n_${omittedSpecs} more ${omittedSpecs === 1 ? 'spec' : 'specs'} not shown._\n`;
+  }
+
+  if (input.failures.length > 0) {
+    markdown += `\n#### Failures (${input.failures.length})\n\n`;
+    let omittedFailures = 0;
+    for (const failure of input.failures) {
+      const block = renderFailure(failure, input);
+      if (omittedFailures > 0 || markdown.length + block.length > budget) {
+        omittedFailures += 1;
+      } else {
+        markdown += block;
+      }
+    }
+    if (omittedFailures > 0) {
+      markdown +=
+        `\n_${omittedFailures} more ${omittedFailures === 1 ? 'failure' : 'failures'} ` +
+        `not shown to stay under ${maxLength} characters._\n`;
+    }
+  }
+
+  // Only a limit smaller than the heading and totals can still be exceeded.
+  return markdown.length > maxLength ? `${markdown.slice(0, maxLength - 2)}…\n` : markdown;
+}
+
+function renderFailure(failure: FailedTest, input: MarkdownSummaryInput): string {
+  const message = stripAnsi(failureMessage(failure));
+  const frames = failure.error?.stack ? input.userFrames(failure.error.stack) : [];
+  const details = [message, ...(frames.length > 0 ? ['', ...frames] : [])].join('\n');
+  // A fence longer than any backtick run inside keeps the block intact.
+  const longestRun = Math.max(0, ...(details.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  const title = escapeMarkdown(failure.titlePath.slice(1).join(' › '));
+  const firstLine = escapeMarkdown(message.split('\n')[0]);
+
+  return [
+    '<details>',
+    `<summary><b>${title}</b> — ${firstLine}</summary>`,
+    '',
+    fence,
+    details,
+    fence,
+    '',
+    '</details>',
+    '',
+  ].join('\n');
+}
+
+function row(cells: Array<string | number>): string {
+  return `| ${cells.map((cell) => String(cell).replace(/\|/g, '\\|')).join(' | ')} |\n`;
+}
+
+function escapeMarkdown(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/([\\`*_[\]|])/g, '\\$1');
+}
@@ -0,0 +1,399 @@
+import type {
+  FullConfig,
+  FullResult,
+  Suite,
+  TestCase,
+  TestResult,
+} from '@playwright/test/reporter';
+import { getFileName } from './format';
+import type { Run } from './renderer';
+import type { MergedRun } from './shard';
+import type {
+  AttemptRecord,
+  ConsoleEntry,
+  FailedTest,
+  NetworkEntry,
+  RunTotals,
+  SpecStats,
+  TestOutcome,
+  TestRecord,
+  WorkerStats,
+} from './types';
+
+/**
+ * Turns Playwright's reporter events into the run, spec, test and failure
+ * records that renderers and report files read. Nothing here formats output.
+ */
+export class RunModel implements Run {
+  startTime = 0;
+  endTime?: number;
+  status?: FullResult['status'];
+  browserDisplay = 'chromium (headless)';
+  parallel = false;
+  workers?: number;
+  shard: FullConfig['shard'] = null;
+  rootDir = process.cwd();
+  completedTests = 0;
+  failures: FailedTest[] = [];
+
+  private counts: RunTotals = { tests: 0, passed: 0, failed: 0, flaky: 0, pending: 0, skipped: 0 };
+  private specOrder: string[] = [];
+  private specStats = new Map<string, SpecStats>();
+  private workerSlots = new Map<number, WorkerStats>();
+  private attempts = new Map<string, AttemptRecord[]>();
+
+  constructor(private readonly options: { retryDetails: boolean }) {}
+
+  /** A run rebuilt from shard data, as complete as a run that just ended. */
+  static fromMergedRun(run: MergedRun, options: { retryDetails: boolean }): RunModel {
+    const model = new RunModel(options);
+    model.startTime = run.startTime;
+    model.endTime = run.endTime;
+    model.status = run.status;
+    model.browserDisplay = run.browserDisplay;
+    model.parallel = run.parallel;
+    model.counts = { ...run.totals };
+    model.completedTests = run.specs.reduce((sum, spec) => sum + spec.completed, 0);
+    model.specOrder = run.specs.map((spec) => spec.filePath);
+    model.specStats = new Map(run.specs.map((spec) => [spec.filePath, spec]));
+    model.failures = run.failures;
+    return model;
+  }
+
+  get totals(): RunTotals {
+    return { ...this.counts };
+  }
+
+  get specs(): SpecStats[] {
+    return this.specOrder
+      .map((filePath) => this.specStats.get(filePath))
+      .filter((spec): spec is SpecStats => spec !== undefined);
+  }
+
+  get workerStats(): WorkerStats[] {
+    return [...this.workerSlots.values()].sort((a, b) => a.parallelIndex - b.parallelIndex);
+  }
+
+  begin(config: FullConfig, suite: Suite): void {
+    this.startTime = Date.now();
+
+    const allTests = suite.allTests();
+    this.counts.tests = allTests.length;
+    this.parallel = config.workers > 1;
+    this.workers = config.workers;
+    this.shard = config.shard;
+    this.rootDir = config.rootDir;
+    this.browserDisplay = getBrowserDisplay(config, allTests);
+
+    const specCounts = new Map<string, number>();
+    for (const testCase of allTests) {
+      const filePath = testCase.location.file;
+      specCounts.set(filePath, (specCounts.get(filePath) || 0) + 1);
+      if (!this.specOrder.includes(filePath)) {
+        this.specOrder.push(filePath);
+      }
+    }
+
+    for (const filePath of this.specOrder) {
+      this.specStats.set(filePath, {
+        filePath,
+        fileName: getFileName(filePath),
+        total: specCounts.get(filePath) || 0,
+        completed: 0,
+        passing: 0,
+        failing: 0,
+        flaky: 0,
+        pending: 0,
+        skipped: 0,
+        testTime: 0,
+        startedAt: 0,
+        endedAt: 0,
+        videoPaths: new Set<string>(),
+        screenshotPaths: new Set<string>(),
+        tests: [],
+      });
+    }
+  }
+
+  /** Returns the test's spec when this is the first of its tests to start. */
+  testBegin(test: TestCase): SpecStats | undefined {
+    const spec = this.specStats.get(test.location.file);
+    if (!spec || spec.startedAt) {
+      return undefined;
+    }
+
+    spec.startedAt = Date.now();
+    return spec;
+  }
+
+  /**
+   * Counts a finished attempt. Returns the test's record and spec for its
+   * final attempt, and `undefined` for an attempt that will be retried.
+   */
+  testEnd(test: TestCase, result: TestResult): { test: TestRecord; spec: SpecStats } | undefined {
+    const filePath = test.location.file;
+    const spec = this.specStats.get(filePath);
+    if (!spec) {
+      return undefined;
+    }
+
+    spec.testTime += result.duration;
+    this.recordWorkerTime(result);
+    if (this.options.retryDetails) {
+      this.recordAttempt(test, result);
+    }
+
+    const outcome = test.outcome();
+    const isUnexpectedPass = result.status === 'passed' && outcome === 'unexpected';
+    const isFinalAttempt =
+      result.retry === (test.retries ?? 0) ||
+      outcome === 'expected' ||
+      (result.status !== 'failed' &&
+        result.status !== 'timedOut' &&
+        !isUnexpectedPass);
+    if (!isFinalAttempt) {
+      return undefined;
+    }
+
+    spec.completed += 1;
+    this.completedTests += 1;
+    const attempts = this.takeAttempts(test);
+    const isFixme = test.annotations.some((a) => a.type === 'fixme');
+
+    let testOutcome: TestOutcome;
+    let failure: FailedTest | undefined;
+    if (outcome === 'expected') {
+      testOutcome = 'passed';
+      this.counts.passed += 1;
+      spec.passing += 1;
+    } else if (outcome === 'flaky') {
+      testOutcome = 'flaky';
+      this.counts.flaky += 1;
+      this.counts.passed += 1;
+      spec.flaky += 1;
+      spec.passing += 1;
+    } else if (result.status === 'skipped') {
+      if (isFixme) {
+        testOutcome = 'pending';
+        this.counts.pending += 1;
+        spec.pending += 1;
+      } else {
+        testOutcome = 'skipped';
+        this.counts.skipped += 1;
+        spec.skipped += 1;
+      }
+    } else {
+      testOutcome = 'failed';
+      this.counts.failed += 1;
+      spec.failing += 1;
+      failure = this.buildFailure(test, result, attempts);
+      this.failures.push(failure);
+    }
+
+    const record: TestRecord = {
+      titlePath: test.titlePath(),
+      title: test.title,
+      // Tags are absent before Playwright 1.42.
+      tags: test.tags ?? [],
+      outcome: testOutcome,
+      status: result.status,
+      duration: result.duration,
+      annotations: test.annotations.map(({ type, description }) => ({ type, description })),
+      attachments: result.attachments.map((attachment) => ({
+        name: attachment.name,
+        contentType: attachment.contentType,
+        path: attachment.path,
+        size: attachment.path ? undefined : (attachment.body?.length ?? 0),
+      })),
+      parallelIndex:
+        result.parallelIndex !== undefined && result.parallelIndex >= 0
+          ? result.parallelIndex
+          : undefined,
+      failure,
+      attempts,
+    };
+    spec.tests.push(record);
+
+    for (const attachment of result.attachments) {
+      if (
+        attachment.path &&
+        (attachment.name === 'video' ||
+          attachment.contentType?.startsWith('video/'))
+      ) {
+        spec.videoPaths.add(attachment.path);
+      }
+
+      if (
+        attachment.path &&
+        (attachment.name === 'screenshot' ||
+          attachment.contentType?.startsWith('image/'))
+      ) {
+        spec.screenshotPaths.add(attachment.path);
+      }
+    }
+
+    if (spec.completed === spec.total) {
+      spec.endedAt = Date.now();
+    }
+    return { test: record, spec };
+  }
+
+  /**
+   * Sets the final status and closes specs that the run left unfinished,
+   * e.g. after `maxFailures` or an interrupt. Returns those specs.
+   */
+  end(status: FullResult['status'], endTime: number): SpecStats[] {
+    const unfinished = this.specs.filter((spec) => spec.completed > 0 && !spec.endedAt);
+    for (const spec of unfinished) {
+      spec.endedAt = endTime;
+    }
+    this.status = status;
+    this.endTime = endTime;
+    return unfinished;
+  }
+
+  private buildFailure(
+    test: TestCase,
+    result: TestResult,
+    attempts: AttemptRecord[] | undefined,
+  ): FailedTest {
+    const consoleErrors = result.attachments.find((a) => a.name === 'console-errors');
+    const networkFailures = result.attachments.find((a) => a.name === 'network-failures');
+    const suppressed = result.attachments.find((a) => a.name === 'report-suppressed');
+    const strict = result.attachments.find((a) => a.name === 'report-strict');
+
+    const consoleEntries = parseJsonAttachment<ConsoleEntry>(consoleErrors);
+    const networkEntries = parseJsonAttachment<NetworkEntry>(networkFailures);
+
+    return {
+      filePath: test.location.file,
+      titlePath: test.titlePath(),
+      error: result.error,
+      unexpectedPass: result.status === 'passed',
+      consoleErrors: consoleEntries
+        ? withPageTags(consoleEntries, formatConsoleEntry)
+        : consoleErrors?.body?.toString('utf-8'),
+      consoleEntries,
+      networkFailures: networkEntries
+        ? withPageTags(networkEntries, formatNetworkEntry)
+        : networkFailures?.body?.toString('utf-8'),
+      networkEntries,
+      suppressed: parseCounts(suppressed),
+      strict: parseCounts(strict),
+      attempts,
+    };
+  }
+
+  private recordWorkerTime(result: TestResult): void {
+    if (result.parallelIndex === undefined || result.parallelIndex < 0) {
+      return;
+    }
+
+    let worker = this.workerSlots.get(result.parallelIndex);
+    if (!worker) {
+      worker = { parallelIndex: result.parallelIndex, attempts: 0, busy: 0 };
+      this.workerSlots.set(result.parallelIndex, worker);
+    }
+    worker.attempts += 1;
+    worker.busy += result.duration;
+  }
+
+  private recordAttempt(test: TestCase, result: TestResult): void {
+    const attempts = this.attempts.get(test.id) ?? [];
+    attempts.push({
+      retry: result.retry,
+      status: result.status,
+      duration: result.duration,
+      error: result.error,
+    });
+    this.attempts.set(test.id, attempts);
+  }
+
+  private takeAttempts(test: TestCase): AttemptRecord[] | undefined {
+    const attempts = this.attempts.get(test.id);
+    this.attempts.delete(test.id);
+    return attempts && attempts.length > 1 ? attempts : undefined;
+  }
+}
+
+/** Groups entries by the page or worker they came from, in order of first appearance. */
+export function groupByPage<T extends { page?: string }>(entries: T[]): [string, T[]][] {
+  const groups = new Map<string, T[]>();
+  for (const entry of entries) {
+    const page = entry.page ?? 'unknown page';
+    groups.set(page, [...(groups.get(page) ?? []), entry]);
+  }
+  return [...groups];
+}
+
+export function getBrowserDisplay(config: FullConfig, allTests: TestCase[]): string {
+  const runningProjects = new Set(allTests.map((t) => t.titlePath()[1]));
+  const seen = new Set<string>();
+  const entries: string[] = [];
+
+  for (const project of config.projects) {
+    if (!runningProjects.has(project.name)) {
+      continue;
+    }
+    const browserName = project.use?.browserName || project.name || 'chromium';
+    const headlessValue = project.use?.headless;
+    const isHeadless = typeof headlessValue === 'boolean' ? headlessValue : true;
+    const entry = `${browserName} (${isHeadless ? 'headless' : 'headed'})`;
+    if (!seen.has(entry)) {
+      seen.add(entry);
+      entries.push(entry);
+    }
+  }
+
+  return entries.length > 0 ? entries.join(', ') : 'chromium (headless)';
+}
+
+/** Formats one line per entry, prefixed with its page only when entries span several pages. */
+function withPageTags<T extends { page?: string }>(
+  entries: T[],
+  format: (entry: T) => string,
+): string {
+  const tagged = groupByPage(entries).length > 1;
+  return entries
+    .map((entry) => `${tagged ? `[${entry.page ?? 'unknown page'}] ` : ''}${format(entry)}`)
+    .join('\n');
+}
+
+function formatConsoleEntry(entry: ConsoleEntry): string {
+  const label = entry.type === 'pageerror' ? '[pageerror]' : `[console.${entry.level}]`;
+  return `${label} ${entry.text}${entry.location ? ` (${entry.location})` : ''}`;
+}
+
+function formatNetworkEntry(entry: NetworkEntry): string {
+  const status = entry.status !== undefined ? `[${entry.status}]` : '[failed]';
+  const failure = entry.failure ? ` — ${entry.failure}` : '';
+  return `${status} ${entry.method} ${entry.url}${failure}`;
+}
+
+function parseJsonAttachment<T>(attachment?: TestResult['attachments'][number]): T[] | undefined {
+  if (!attachment?.body || attachment.contentType !== 'application/json') {
+    return undefined;
+  }
+
+  try {
+    const entries = JSON.parse(attachment.body.toString('utf-8'));
+    return Array.isArray(entries) ? entries : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseCounts(
+  attachment?: TestResult['attachments'][number],
+): { console: number; network: number } | undefined {
+  if (!attachment?.body) {
+    return undefined;
+  }
+
+  try {
+    const counts = JSON.parse(attachment.body.toString('utf-8'));
+    return { console: Number(counts.console) || 0, network: Number(counts.network) || 0 };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,335 @@
+import type { Renderer } from './renderer';
+import {
+  isColorDepth,
+  isThemeStyle,
+  THEME_ELEMENTS,
+  type ColorDepth,
+  type ThemeOptions,
+} from './theme';
+
+export type Verbosity = 'quiet' | 'normal' | 'verbose';
+
+export type ReporterOptions = {
+  /**
+   * `quiet` prints only failures and the final table; `verbose` adds attachments
+   * and annotations of passing tests and more run details.
+   */
+  verbosity?: Verbosity;
+  /**
+   * Force coloured output on or off, or pin its depth to `basic`, `256` or
+   * `truecolor`. Defaults to the `NO_COLOR` / `FORCE_COLOR` environment check.
+   */
+  color?: boolean | ColorDepth;
+  /** Style per output element, e.g. `{ flaky: 'brightYellow bold', stack: '#888888' }`. */
+  theme?: ThemeOptions;
+  /** Lower bound for the width of separators and boxes. */
+  minLineWidth?: number;
+  /** Upper bound for the width of separators and boxes. */
+  maxLineWidth?: number;
+  /** Stack frames containing any of these substrings (or matching these patterns) are hidden. */
+  hiddenFrames?: Array<string | RegExp>;
+  /** List screenshot paths under each spec. */
+  showScreenshots?: boolean;
+  /** List video paths under each spec. */
+  showVideos?: boolean;
+  /** Also write the report to this file, relative to the config directory. */
+  outputFile?: string;
+  /** Keep ANSI colour codes in `outputFile`. */
+  outputFileColor?: boolean;
+  /** Write the report to stdout. Set to `false` with `outputFile` to write only the file. */
+  stdout?: boolean;
+  /** Write a machine-readable JSON summary to this file at the end of the run. */
+  jsonOutputFile?: string;
+  /** Write a JUnit XML report built from the same counters as the console table. */
+  junitOutputFile?: string;
+  /** Write a Markdown summary, e.g. for a pull request comment, to this file. */
+  markdownOutputFile?: string;
+  /** Maximum length of `markdownOutputFile` in characters; failures that do not fit are left out. */
+  markdownMaxLength?: number;
+  /** Write a single-file HTML version of the report to this file. */
+  htmlOutputFile?: string;
+  /** Write this shard's data to this directory so `playwright-terminal-reporter merge` can combine shards. */
+  shardDataDir?: string;
+  /** Print each test line as soon as it finishes instead of once per spec. */
+  streaming?: boolean;
+  /** Show a one-line in-place progress indicator when stdout is a TTY. */
+  progress?: boolean;
+  /** Show a few lines of source around the failing line in the Failures section. */
+  codeFrames?: boolean;
+  /** Keep every retry attempt and show how each one failed for flaky and failed tests. */
+  retryDetails?: boolean;
+  /** Tag each test line with its worker. Defaults to on when more than one worker is configured. */
+  showWorkerIndex?: boolean;
+  /** Print a (Worker Utilization) section with each worker's busy and idle time. */
+  workerUtilization?: boolean;
+  /** Print a (Project Matrix) of failing tests per project and per-project rows in the summary table. */
+  projectMatrix?: boolean;
+  /**
+   * Turns annotation descriptions into links, keyed by annotation type. `{description}`
+   * in the template is replaced with the URL-encoded description.
+   */
+  annotationLinks?: Record<string, string>;
+  /**
+   * Print a (Failure Clusters) section grouping failures that share a normalised
+   * error message. Not printed with `verbosity: 'quiet'`.
+   */
+  failureClusters?: boolean;
+  /** Print a (Slowest Tests) section with the N slowest tests. `0` disables it. */
+  slowestTests?: number;
+  /** Flag specs whose test time exceeds this share (0–1) of the whole run's test time. */
+  slowSpecShare?: number;
+  /** Mark test lines that take longer than this many milliseconds with `(slow: 12.3s)`. */
+  slowTestThreshold?: number;
+  /** Keep per-test outcomes of recent runs in this JSON file and print a (History) section. */
+  historyFile?: string;
+  /** Number of runs kept in `historyFile`. */
+  historySize?: number;
+  /** Flag tests slower than their rolling median duration times this factor. */
+  durationRegressionFactor?: number;
+  /**
+   * CI integration: workflow commands, collapsible spec blocks and job summaries.
+   * `auto` detects GitHub Actions and GitLab CI from the environment.
+   */
+  ci?: 'auto' | 'github' | 'gitlab' | 'off';
+  /** Write a GitLab Code Quality report of the failures to this file. */
+  codeQualityOutputFile?: string;
+  /** Extra renderers that receive the collected run after the console output and report files. */
+  renderers?: Renderer[];
+  /** Set by Playwright to the directory containing the config file. */
+  configDir?: string;
+};
+
+type OptionalKeys =
+  | 'outputFile'
+  | 'jsonOutputFile'
+  | 'junitOutputFile'
+  | 'htmlOutputFile'
+  | 'markdownOutputFile'
+  | 'shardDataDir'
+  | 'showWorkerIndex'
+  | 'slowSpecShare'
+  | 'slowTestThreshold'
+  | 'historyFile'
+  | 'codeQualityOutputFile';
+
+export type ResolvedOptions = Required<Omit<ReporterOptions, OptionalKeys>> &
+  Pick<ReporterOptions, OptionalKeys>;
+
+export const DEFAULT_HIDDEN_FRAMES: Array<string | RegExp> = [
+  'node_modules',
+  '/playwright-core/',
+  '/playwright/',
+  'at async FixtureRunner',
+  'at async TestRunner',
+  'at async WorkerRunner',
+];
+
+type Validator = {
+  expected: string;
+  check: (value: unknown) => boolean;
+  /** For arrays: what each entry must be, reported with the index of the first that is not. */
+  entry?: { expected: string; check: (value: unknown) => boolean };
+};
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isString = (value: unknown) => typeof value === 'string';
+const isPath = (value: unknown) => isString(value) && value !== '';
+const isPositiveInteger = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+const isNonNegativeInteger = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+const isFraction = (value: unknown) => typeof value === 'number' && value > 0 && value < 1;
+const isPositiveNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isArray = (value: unknown) => Array.isArray(value);
+const isPattern = (value: unknown) => typeof value === 'string' || value instanceof RegExp;
+const isObject = (value: unknown) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringRecord = (value: unknown) =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every(isString);
+
+const isTheme = (value: unknown) =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.entries(value).every(
+    ([element, style]) => THEME_ELEMENTS.includes(element as never) && isThemeStyle(style),
+  );
+
+const VERBOSITY_LEVELS: Verbosity[] = ['quiet', 'normal', 'verbose'];
+const CI_MODES = ['auto', 'github', 'gitlab', 'off'];
+
+const validators: Record<keyof ReporterOptions, Validator> = {
+  verbosity: {
+    expected: '"quiet", "normal" or "verbose"',
+    check: (value) => VERBOSITY_LEVELS.includes(value as Verbosity),
+  },
+  color: {
+    expected: 'a boolean, "basic", "256" or "truecolor"',
+    check: (value) => isBoolean(value) || isColorDepth(value),
+  },
+  theme: {
+    expected: `an object mapping ${THEME_ELEMENTS.join(', ')} to styles`,
+    check: isTheme,
+  },
+  minLineWidth: { expected: 'a positive integer', check: isPositiveInteger },
+  maxLineWidth: { expected: 'a positive integer', check: isPositiveInteger },
+  hiddenFrames: {
+    expected: 'an array of strings or RegExps',
+    check: isArray,
+    entry: { expected: 'a string or RegExp', check: isPattern },
+  },
+  showScreenshots: { expected: 'a boolean', check: isBoolean },
+  showVideos: { expected: 'a boolean', check: isBoolean },
+  outputFile: { expected: 'a non-empty string', check: isPath },
+  outputFileColor: { expected: 'a boolean', check: isBoolean },
+  stdout: { expected: 'a boolean', check: isBoolean },
+  jsonOutputFile: { expected: 'a non-empty string', check: isPath },
+  junitOutputFile: { expected: 'a non-empty string', check: isPath },
+  htmlOutputFile: { expected: 'a non-empty string', check: isPath },
+  markdownOutputFile: { expected: 'a non-empty string', check: isPath },
+  markdownMaxLength: { expected: 'a positive integer', check: isPositiveInteger },
+  shardDataDir: { expected: 'a non-empty string', check: isPath },
+  streaming: { expected: 'a boolean', check: isBoolean },
+  progress: { expected: 'a boolean', check: isBoolean },
+  codeFrames: { expected: 'a boolean', check: isBoolean },
+  retryDetails: { expected: 'a boolean', check: isBoolean },
+  showWorkerIndex: { expected: 'a boolean', check: isBoolean },
+  workerUtilization: { expected: 'a boolean', check: isBoolean },
+  projectMatrix: { expected: 'a boolean', check: isBoolean },
+  failureClusters: { expected: 'a boolean', check: isBoolean },
+  annotationLinks: { expected: 'an object of URL templates', check: isStringRecord },
+  slowestTests: { expected: 'a non-negative integer', check: isNonNegativeInteger },
+  slowSpecShare: { expected: 'a number between 0 and 1', check: isFraction },
+  slowTestThreshold: { expected: 'a positive number of milliseconds', check: isPositiveNumber },
+  historyFile: { expected: 'a non-empty string', check: isPath },
+  historySize: { expected: 'a positive integer', check: isPositiveInteger },
+  durationRegressionFactor: {
+    expected: 'a number greater than 1',
+    check: (value) => typeof value === 'number' && Number.isFinite(value) && value > 1,
+  },
+  ci: {
+    expected: '"auto", "github", "gitlab" or "off"',
+    check: (value) => CI_MODES.includes(value as string),
+  },
+  codeQualityOutputFile: { expected: 'a non-empty string', check: isPath },
+  renderers: {
+    expected: 'an array of renderer objects',
+    check: isArray,
+    entry: { expected: 'an object', check: isObject },
+  },
+  configDir: { expected: 'a string', check: isString },
+};
+
+export function defaultOptions(env: NodeJS.ProcessEnv = process.env): ResolvedOptions {
+  return {
+    verbosity: 'normal',
+    color: env.NO_COLOR === undefined && env.FORCE_COLOR !== '0' && env.FORCE_COLOR !== 'false',
+    theme: {},
+    minLineWidth: 60,
+    maxLineWidth: 96,
+    hiddenFrames: DEFAULT_HIDDEN_FRAMES,
+    showScreenshots: true,
+    showVideos: true,
+    outputFile: undefined,
+    outputFileColor: false,
+    stdout: true,
+    jsonOutputFile: undefined,
+    junitOutputFile: undefined,
+    shardDataDir: undefined,
+    streaming: false,
+    progress: false,
+    codeFrames: true,
+    retryDetails: false,
+    showWorkerIndex: undefined,
+    workerUtilization: false,
+    projectMatrix: false,
+    failureClusters: true,
+    annotationLinks: {},
+    slowestTests: 0,
+    slowSpecShare: undefined,
+    slowTestThreshold: undefined,
+    historyFile: undefined,
+    historySize: 20,
+    durationRegressionFactor: 1.5,
+    // GitHub rejects comments longer than 65,536 characters; leave room for surrounding text.
+    markdownMaxLength: 60000,
+    ci: 'auto',
+    codeQualityOutputFile: undefined,
+    renderers: [],
+    configDir: process.cwd(),
+  };
+}
+
+/**
+ * Merges user options over the defaults. Invalid entries are dropped and
+ * described in `errors` so the reporter can surface them instead of
+ * silently ignoring a typo in `playwright.config.ts`.
+ */
+export function resolveOptions(
+  input: unknown,
+  env: NodeJS.ProcessEnv = process.env,
+): { options: ResolvedOptions; errors: string[] } {
+  const options = defaultOptions(env);
+  const errors: string[] = [];
+
+  if (input === undefined || input === null) {
+    return { options, errors };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    errors.push(`Reporter options must be an object, received ${describeValue(input)}`);
+    return { options, errors };
+  }
+
+  const resolved = options as Record<string, unknown>;
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    // Playwright passes private bookkeeping keys such as `_mode` to every reporter.
+    if (key.startsWith('_') || value === undefined) {
+      continue;
+    }
+    const validator = Object.prototype.hasOwnProperty.call(validators, key)
+      ? validators[key as keyof ReporterOptions]
+      : undefined;
+    if (!validator) {
+      errors.push(`Unknown option "${key}"`);
+    } else if (!validator.check(value)) {
+      errors.push(`Option "${key}" must be ${validator.expected}, received ${describeValue(value)}`);
+    } else {
+      const { entry } = validator;
+      const index = entry ? (value as unknown[]).findIndex((item) => !entry.check(item)) : -1;
+      if (entry && index !== -1) {
+        errors.push(
+          `Option "${key}" entry ${index} must be ${entry.expected}, received ${describeValue((value as unknown[])[index])}`,
+        );
+      } else {
+        resolved[key] = value;
+      }
+    }
+  }
+
+  if (options.minLineWidth > options.maxLineWidth) {
+    errors.push(
+      `Option "minLineWidth" (${options.minLineWidth}) must not exceed "maxLineWidth" (${options.maxLineWidth})`,
+    );
+    options.maxLineWidth = options.minLineWidth;
+  }
+
+  if (!options.stdout && !options.outputFile) {
+    errors.push('Option "stdout" can only be false when "outputFile" is set');
+    options.stdout = true;
+  }
+
+  return { options, errors };
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return 'an array';
+  if (value === null) return 'null';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
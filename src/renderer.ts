@@ -0,0 +1,44 @@
+import type { FullConfig, FullResult, TestError } from '@playwright/test/reporter';
+import type { FailedTest, RunTotals, SpecStats, TestRecord, WorkerStats } from './types';
+
+/**
+ * Read-only view of the run collected so far. Counters and records grow as
+ * tests finish; `status` and `endTime` are set just before `onEnd`.
+ */
+export interface Run {
+  readonly startTime: number;
+  readonly endTime?: number;
+  readonly status?: FullResult['status'];
+  /** Browsers of the running projects, e.g. `chromium (headless), firefox (headless)`. */
+  readonly browserDisplay: string;
+  /** Whether more than one worker was configured. */
+  readonly parallel: boolean;
+  readonly workers?: number;
+  readonly shard: FullConfig['shard'];
+  readonly totals: RunTotals;
+  /** Final attempts that have been counted; retried attempts are not. */
+  readonly completedTests: number;
+  /** Every spec file of the run, in the order Playwright listed them. */
+  readonly specs: SpecStats[];
+  readonly failures: FailedTest[];
+  readonly workerStats: WorkerStats[];
+}
+
+/**
+ * Receives the collected run as it progresses. Every hook is optional. The
+ * console output is the default renderer; more are registered through the
+ * `renderers` option and run after it, in order.
+ */
+export interface Renderer {
+  onBegin?(run: Run): void;
+  /** The first test of `spec` started. */
+  onSpecBegin?(spec: SpecStats, run: Run): void;
+  /** A test's final attempt finished; retried attempts are not reported. */
+  onTestEnd?(test: TestRecord, spec: SpecStats, run: Run): void;
+  /** Every test of `spec` finished, or the run ended before they did. */
+  onSpecEnd?(spec: SpecStats, run: Run): void;
+  /** An error outside any test, such as a failing global setup. */
+  onError?(error: TestError, run: Run): void;
+  /** Playwright waits for a returned promise before exiting. */
+  onEnd?(run: Run): void | Promise<void>;
+}
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  buildCodeQualityReport,
+  ciAnnotation,
+  GITHUB_STEP_SUMMARY_MAX_LENGTH,
+  type CiProvider,
+} from './ci';
+import { writeReportFile } from './files';
+import { formatClockDuration, relativePath, userFrames } from './format';
+import { buildHistoryRun, readHistory } from './history';
+import { buildHtmlReport } from './html';
+import { buildJsonReport } from './json';
+import { buildJunitReport } from './junit';
+import { buildMarkdownSummary } from './markdown';
+import type { ResolvedOptions } from './options';
+import type { Renderer, Run } from './renderer';
+
+/**
+ * Writes the configured report files (JSON, JUnit, HTML, Markdown, GitLab
+ * Code Quality), the GitHub job summary and the run history once the run
+ * has ended.
+ */
+export class ReportFileRenderer implements Renderer {
+  constructor(
+    private readonly options: ResolvedOptions,
+    private readonly ciProvider?: CiProvider,
+  ) {}
+
+  onEnd(run: Run): void {
+    this.writeJsonReport(run);
+    this.writeJunitReport(run);
+    this.writeHtmlReport(run);
+    this.writeMarkdownSummary(run);
+    this.writeCiReports(run);
+    this.writeHistory(run);
+  }
+
+  private writeJsonReport(run: Run): void {
+    if (!this.options.jsonOutputFile) {
+      return;
+    }
+
+    const report = buildJsonReport({
+      status: run.status ?? 'passed',
+      startTime: run.startTime,
+      endTime: this.endTime(run),
+      totals: run.totals,
+      specs: run.specs,
+      failures: run.failures,
+      relativePath,
+      userFrames: (stack) => this.userFrames(stack),
+    });
+    this.writeReportFile(this.options.jsonOutputFile, `${JSON.stringify(report, null, 2)}\n`);
+  }
+
+  private writeJunitReport(run: Run): void {
+    if (!this.options.junitOutputFile) {
+      return;
+    }
+
+    const xml = buildJunitReport({
+      startTime: run.startTime,
+      endTime: this.endTime(run),
+      specs: run.specs,
+      relativePath,
+      userFrames: (stack) => this.userFrames(stack),
+    });
+    this.writeReportFile(this.options.junitOutputFile, xml);
+  }
+
+  private writeHtmlReport(run: Run): void {
+    if (!this.options.htmlOutputFile) {
+      return;
+    }
+
+    const htmlDir = path.dirname(this.resolveOutputPath(this.options.htmlOutputFile));
+    const html = buildHtmlReport({
+      status: run.status ?? 'passed',
+      startTime: run.startTime,
+      endTime: this.endTime(run),
+      browserDisplay: run.browserDisplay,
+      totals: run.totals,
+      specs: run.specs,
+      failures: run.failures,
+      relativePath,
+      userFrames: (stack) => this.userFrames(stack),
+      formatDuration: formatClockDuration,
+      linkPath: (filePath) => path.relative(htmlDir, filePath).replace(/\\/g, '/'),
+      embedImage: (filePath) => this.imageDataUri(filePath),
+    });
+    this.writeReportFile(this.options.htmlOutputFile, html);
+  }
+
+  private imageDataUri(filePath: string): string | undefined {
+    const types: Record<string, string> = {
+      '.png': 'image/png',
+      '.jpg': 'image/jpeg',
+      '.jpeg': 'image/jpeg',
+      '.webp': 'image/webp',
+    };
+    const type = types[path.extname(filePath).toLowerCase()];
+    if (!type) {
+      return undefined;
+    }
+    try {
+      return `data:${type};base64,${fs.readFileSync(filePath).toString('base64')}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeMarkdownSummary(run: Run): void {
+    if (!this.options.markdownOutputFile) {
+      return;
+    }
+
+    this.writeReportFile(
+      this.options.markdownOutputFile,
+      this.markdownSummary(run, this.options.markdownMaxLength),
+    );
+  }
+
+  private markdownSummary(run: Run, maxLength: number): string {
+    return buildMarkdownSummary({
+      status: run.status ?? 'passed',
+      startTime: run.startTime,
+      endTime: this.endTime(run),
+      totals: run.totals,
+      specs: run.specs,
+      failures: run.failures,
+      relativePath,
+      userFrames: (stack) => this.userFrames(stack),
+      formatDuration: formatClockDuration,
+      maxLength,
+    });
+  }
+
+  private writeCiReports(run: Run): void {
+    if (this.ciProvider === 'github' && process.env.GITHUB_STEP_SUMMARY) {
+      const summaryFile = process.env.GITHUB_STEP_SUMMARY;
+      try {
+        fs.appendFileSync(summaryFile, this.markdownSummary(run, GITHUB_STEP_SUMMARY_MAX_LENGTH));
+      } catch (error) {
+        process.stderr.write(
+          `playwright-terminal-reporter: could not write "${summaryFile}": ${(error as Error).message}\n`,
+        );
+      }
+    }
+
+    if (this.options.codeQualityOutputFile) {
+      const annotations = run.failures.map((failure) =>
+        ciAnnotation(failure, this.options.hiddenFrames),
+      );
+      this.writeReportFile(this.options.codeQualityOutputFile, buildCodeQualityReport(annotations));
+    }
+  }
+
+  /** Appends the run to `historyFile`. Shards are left out; their merged run is appended. */
+  private writeHistory(run: Run): void {
+    if (!this.options.historyFile || run.shard) {
+      return;
+    }
+
+    const filePath = this.resolveOutputPath(this.options.historyFile);
+    let history;
+    try {
+      history = readHistory(filePath);
+    } catch {
+      // The console output reports the unreadable file; it is left untouched.
+      return;
+    }
+    const current = buildHistoryRun(
+      run.startTime,
+      run.specs.flatMap((spec) => spec.tests),
+    );
+    history.runs = [...history.runs, current].slice(-this.options.historySize);
+    writeReportFile(filePath, `${JSON.stringify(history)}\n`);
+  }
+
+  private endTime(run: Run): number {
+    return run.endTime ?? Date.now();
+  }
+
+  private userFrames(stack: string): string[] {
+    return userFrames(stack, this.options.hiddenFrames);
+  }
+
+  private writeReportFile(file: string, content: string): void {
+    writeReportFile(this.resolveOutputPath(file), content);
+  }
+
+  private resolveOutputPath(file: string): string {
+    return path.resolve(this.options.configDir, file);
+  }
+}
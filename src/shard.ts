@@ -0,0 +1,187 @@
+import type { FullConfig, FullResult } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FailedTest, RunTotals, SpecStats } from './types';
+
+export const SHARD_DATA_VERSION = 2;
+
+// The names the reporter writes: `shard-<current>-of-<total>.json`, or `run.json` when not sharded.
+const SHARD_FILE_NAME = /^(shard-\d+-of-\d+|run)\.json$/;
+
+type SerializedSpec = Omit<SpecStats, 'videoPaths' | 'screenshotPaths'> & {
+  videoPaths: string[];
+  screenshotPaths: string[];
+};
+
+/** Everything needed to re-render one shard's console output, as written to `shardDataDir`. */
+export type ShardData = {
+  version: number;
+  shard: FullConfig['shard'];
+  rootDir: string;
+  status: FullResult['status'];
+  startTime: number;
+  endTime: number;
+  browserDisplay: string;
+  parallel: boolean;
+  totals: RunTotals;
+  specs: SerializedSpec[];
+  failures: FailedTest[];
+};
+
+export type MergedRun = {
+  status: FullResult['status'];
+  startTime: number;
+  endTime: number;
+  browserDisplay: string;
+  parallel: boolean;
+  totals: RunTotals;
+  specs: SpecStats[];
+  failures: FailedTest[];
+  shardTotal: number;
+  missingShards: number[];
+};
+
+// The most severe status of any shard becomes the status of the merged run.
+const STATUS_SEVERITY: FullResult['status'][] = ['failed', 'timedout', 'interrupted', 'passed'];
+
+export function buildShardData(
+  input: Omit<ShardData, 'version' | 'specs'> & { specs: SpecStats[] },
+): ShardData {
+  return {
+    ...input,
+    version: SHARD_DATA_VERSION,
+    specs: input.specs.map((spec) => ({
+      ...spec,
+      videoPaths: [...spec.videoPaths],
+      screenshotPaths: [...spec.screenshotPaths],
+    })),
+  };
+}
+
+export function readShardData(dir: string): ShardData[] {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Directory not found: ${dir}`);
+  }
+
+  const files = fs.readdirSync(dir).filter((file) => SHARD_FILE_NAME.test(file));
+  if (files.length === 0) {
+    throw new Error(`No shard data files found in ${dir}`);
+  }
+
+  const shards = files.map((file) => {
+    const filePath = path.join(dir, file);
+    let data: ShardData;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Could not parse ${filePath}: ${(error as Error).message}`);
+    }
+    if (data?.version !== SHARD_DATA_VERSION) {
+      throw new Error(
+        `${filePath} is not shard data version ${SHARD_DATA_VERSION} (found ${String(data?.version)})`,
+      );
+    }
+    return data;
+  });
+
+  return shards.sort((a, b) => (a.shard?.current ?? 0) - (b.shard?.current ?? 0));
+}
+
+/**
+ * Combines shards into one run. Spec files are matched by their path relative
+ * to each shard's `rootDir`, so shards checked out to different directories
+ * still merge; paths are rebased onto the first shard's `rootDir`.
+ */
+export function mergeShardData(shards: ShardData[]): MergedRun {
+  const rootDir = shards[0].rootDir;
+  const specs = new Map<string, SpecStats>();
+  const failures: FailedTest[] = [];
+  const browsers: string[] = [];
+  const totals: RunTotals = { tests: 0, passed: 0, failed: 0, flaky: 0, pending: 0, skipped: 0 };
+
+  for (const shard of shards) {
+    const rebase = (filePath: string) => rebasePath(filePath, shard.rootDir, rootDir);
+
+    for (const key of Object.keys(totals) as (keyof RunTotals)[]) {
+      totals[key] += shard.totals[key];
+    }
+    for (const browser of shard.browserDisplay.split(', ')) {
+      if (!browsers.includes(browser)) {
+        browsers.push(browser);
+      }
+    }
+
+    for (const data of shard.specs) {
+      const filePath = rebase(data.filePath);
+      const tests = data.tests.map((test) => ({
+        ...test,
+        failure: test.failure && { ...test.failure, filePath },
+      }));
+      const existing = specs.get(filePath);
+      if (!existing) {
+        specs.set(filePath, {
+          ...data,
+          filePath,
+          tests,
+          videoPaths: new Set(data.videoPaths.map(rebase)),
+          screenshotPaths: new Set(data.screenshotPaths.map(rebase)),
+        });
+        continue;
+      }
+
+      existing.total += data.total;
+      existing.completed += data.completed;
+      existing.passing += data.passing;
+      existing.failing += data.failing;
+      existing.flaky += data.flaky;
+      existing.pending += data.pending;
+      existing.skipped += data.skipped;
+      existing.testTime += data.testTime;
+      existing.startedAt = earliest(existing.startedAt, data.startedAt);
+      existing.endedAt = Math.max(existing.endedAt, data.endedAt);
+      existing.tests.push(...tests);
+      data.videoPaths.forEach((p) => existing.videoPaths.add(rebase(p)));
+      data.screenshotPaths.forEach((p) => existing.screenshotPaths.add(rebase(p)));
+    }
+
+    for (const failure of shard.failures) {
+      failures.push({ ...failure, filePath: rebase(failure.filePath) });
+    }
+  }
+
+  const shardTotal = shards[0].shard?.total ?? 1;
+  const present = new Set(shards.map((shard) => shard.shard?.current ?? 1));
+  const missingShards: number[] = [];
+  for (let current = 1; current <= shardTotal; current += 1) {
+    if (!present.has(current)) {
+      missingShards.push(current);
+    }
+  }
+
+  return {
+    status: STATUS_SEVERITY.find((status) => shards.some((shard) => shard.status === status)) ?? 'passed',
+    startTime: Math.min(...shards.map((shard) => shard.startTime)),
+    endTime: Math.max(...shards.map((shard) => shard.endTime)),
+    browserDisplay: browsers.join(', '),
+    parallel: shards.some((shard) => shard.parallel),
+    totals,
+    specs: [...specs.values()],
+    failures,
+    shardTotal,
+    missingShards,
+  };
+}
+
+function rebasePath(filePath: string, fromRoot: string, toRoot: string): string {
+  const relative = path.relative(fromRoot, filePath);
+  if (fromRoot === toRoot || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return filePath;
+  }
+  return path.join(toRoot, relative);
+}
+
+function earliest(a: number, b: number): number {
+  if (!a) return b;
+  if (!b) return a;
+  return Math.min(a, b);
+}
@@ -0,0 +1,182 @@
+/** Parts of the console output that can be styled through the `theme` option. */
+export type ThemeElement =
+  | 'pass'
+  | 'fail'
+  | 'flaky'
+  | 'pending'
+  | 'skipped'
+  | 'heading'
+  | 'stack'
+  | 'path';
+
+/**
+ * Space-separated style tokens: colour names (`green`, `brightRed`, `gray`),
+ * modifiers (`bold`, `dim`, `italic`, `underline`), 256-colour indexes (`208`)
+ * and hex colours (`#ff8800`). An empty string leaves the element unstyled.
+ */
+export type ThemeStyle = string;
+
+export type ThemeOptions = Partial<Record<ThemeElement, ThemeStyle>>;
+
+export type Theme = Record<ThemeElement, (text: string) => string>;
+
+/** 1 is the 16 basic colours, 2 the 256-colour palette, 3 truecolor. */
+export type ColorLevel = 1 | 2 | 3;
+
+/** `basic`, `256` or `truecolor` pin the colour depth instead of detecting it. */
+export type ColorDepth = 'basic' | '256' | 'truecolor';
+
+export const DEFAULT_THEME: Record<ThemeElement, ThemeStyle> = {
+  pass: 'green',
+  fail: 'red',
+  flaky: 'yellow',
+  pending: 'cyan',
+  skipped: 'dim',
+  heading: 'bold',
+  stack: 'dim',
+  path: 'dim',
+};
+
+export const THEME_ELEMENTS = Object.keys(DEFAULT_THEME) as ThemeElement[];
+
+const MODIFIERS: Record<string, number> = {
+  bold: 1,
+  dim: 2,
+  italic: 3,
+  underline: 4,
+  inverse: 7,
+};
+
+const BASIC_COLORS = ['black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white'];
+
+const DEPTHS: Record<ColorDepth, ColorLevel> = { basic: 1, '256': 2, truecolor: 3 };
+
+type StyleToken =
+  | { kind: 'code'; code: number }
+  | { kind: 'ansi256'; index: number }
+  | { kind: 'rgb'; red: number; green: number; blue: number };
+
+/**
+ * Colour depth of the terminal, for when colour is on. `FORCE_COLOR=1|2|3`
+ * sets it explicitly; otherwise `COLORTERM` and `TERM` are checked.
+ */
+export function detectColorLevel(env: NodeJS.ProcessEnv): ColorLevel {
+  const forced = env.FORCE_COLOR;
+  if (forced === '2' || forced === '3') {
+    return Number(forced) as ColorLevel;
+  }
+  if (forced !== undefined && forced !== '0' && forced !== 'false') {
+    return 1;
+  }
+  if (/^(truecolor|24bit)$/i.test(env.COLORTERM ?? '')) {
+    return 3;
+  }
+  if (/-256(color)?$/i.test(env.TERM ?? '')) {
+    return 2;
+  }
+  return 1;
+}
+
+export function colorLevel(color: boolean | ColorDepth, env: NodeJS.ProcessEnv): ColorLevel {
+  return typeof color === 'string' ? DEPTHS[color] : detectColorLevel(env);
+}
+
+export function isColorDepth(value: unknown): value is ColorDepth {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DEPTHS, value);
+}
+
+export function isThemeStyle(value: unknown): value is ThemeStyle {
+  return typeof value === 'string' && parseStyle(value) !== undefined;
+}
+
+/** The default theme with `overrides` applied, rendered for `level`. */
+export function buildTheme(overrides: ThemeOptions, level: ColorLevel): Theme {
+  const theme = {} as Theme;
+  for (const element of THEME_ELEMENTS) {
+    const tokens = parseStyle(overrides[element] ?? DEFAULT_THEME[element]) ?? [];
+    const codes = tokens.map((token) => sgrCode(token, level)).join(';');
+    theme[element] = codes ? (text) => `\u001b[${codes}m${text}\u001b[0m` : (text) => text;
+  }
+  return theme;
+}
+
+function parseStyle(style: string): StyleToken[] | undefined {
+  const tokens: StyleToken[] = [];
+  for (const word of style.split(/\s+/).filter(Boolean)) {
+    const token = parseToken(word);
+    if (!token) {
+      return undefined;
+    }
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+function parseToken(word: string): StyleToken | undefined {
+  if (Object.prototype.hasOwnProperty.call(MODIFIERS, word)) {
+    return { kind: 'code', code: MODIFIERS[word] };
+  }
+  if (word === 'gray' || word === 'grey') {
+    return { kind: 'code', code: 90 };
+  }
+  const bright = /^bright([A-Z][a-z]+)$/.exec(word);
+  const name = bright ? bright[1].toLowerCase() : word;
+  const index = BASIC_COLORS.indexOf(name);
+  if (index >= 0) {
+    return { kind: 'code', code: (bright ? 90 : 30) + index };
+  }
+  if (/^\d{1,3}$/.test(word) && Number(word) <= 255) {
+    return { kind: 'ansi256', index: Number(word) };
+  }
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(word);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    const value = parseInt(digits, 16);
+    return { kind: 'rgb', red: (value >> 16) & 0xff, green: (value >> 8) & 0xff, blue: value & 0xff };
+  }
+  return undefined;
+}
+
+// Colours beyond the terminal's depth fall back to the closest colour it has.
+function sgrCode(token: StyleToken, level: ColorLevel): string {
+  if (token.kind === 'code') {
+    return String(token.code);
+  }
+  if (token.kind === 'rgb') {
+    if (level === 3) {
+      return `38;2;${token.red};${token.green};${token.blue}`;
+    }
+    const index = rgbToAnsi256(token.red, token.green, token.blue);
+    return level === 2 ? `38;5;${index}` : String(ansi256ToBasic(index));
+  }
+  return level >= 2 ? `38;5;${token.index}` : String(ansi256ToBasic(token.index));
+}
+
+function rgbToAnsi256(red: number, green: number, blue: number): number {
+  if (red === green && green === blue) {
+    if (red < 8) return 16;
+    if (red > 248) return 231;
+    return Math.round(((red - 8) / 247) * 24) + 232;
+  }
+  const scale = (value: number) => Math.round((value / 255) * 5);
+  return 16 + 36 * scale(red) + 6 * scale(green) + scale(blue);
+}
+
+function ansi256ToBasic(index: number): number {
+  if (index < 8) return 30 + index;
+  if (index < 16) return 90 + (index - 8);
+  // The grayscale ramp: black, gray, white, bright white.
+  if (index >= 232) {
+    const shade = index - 232;
+    return shade < 6 ? 30 : shade < 14 ? 90 : shade < 20 ? 37 : 97;
+  }
+
+  const cube = index - 16;
+  const red = Math.floor(cube / 36) / 5;
+  const green = Math.floor((cube % 36) / 6) / 5;
+  const blue = (cube % 6) / 5;
+  const brightness = Math.max(red, green, blue) * 2;
+  if (brightness === 0) return 30;
+  const code = 30 + ((Math.round(blue) << 2) | (Math.round(green) << 1) | Math.round(red));
+  return brightness === 2 ? code + 60 : code;
+}
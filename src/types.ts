@@ -0,0 +1,139 @@
+import type { TestError, TestResult } from '@playwright/test/reporter';
+
+export type AttemptRecord = {
+  retry: number;
+  status: TestResult['status'];
+  duration: number;
+  error?: TestError;
+};
+
+/** One browser console message or uncaught page error, as attached by the fixtures. */
+export type ConsoleEntry = {
+  type: 'console' | 'pageerror';
+  /** Console message type (`error`, `warning`, `log`, …); `error` for page errors. */
+  level: string;
+  text: string;
+  /** `url:line:column` of the message source, when the browser reports one. */
+  location?: string;
+  /** Stack of an uncaught page error. */
+  stack?: string;
+  /** Page (`page 1` is the test's page) or worker the entry came from. */
+  page?: string;
+  /** Milliseconds since the test started. */
+  time: number;
+};
+
+/** One failed request or 4xx/5xx response, as attached by the fixtures. */
+export type NetworkEntry = {
+  /** Page (`page 1` is the test's page) or service worker that sent the request. */
+  page?: string;
+  method: string;
+  url: string;
+  /** HTTP status; absent when the request failed without a response. */
+  status?: number;
+  /** Browser error text for requests that failed without a response. */
+  failure?: string;
+  resourceType: string;
+  /** Milliseconds from request start to response end, when the browser reports it. */
+  duration?: number;
+  /** Milliseconds since the test started. */
+  time: number;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  /** Response body of a 4xx/5xx response, truncated by the fixture. */
+  body?: string;
+};
+
+/** Entries the fixtures dropped because they matched an ignore pattern. */
+export type SuppressedCounts = {
+  console: number;
+  network: number;
+};
+
+/** Entries that failed an otherwise passing test through the fixtures' strict modes. */
+export type StrictViolations = {
+  console: number;
+  network: number;
+};
+
+export type FailedTest = {
+  filePath: string;
+  titlePath: string[];
+  error?: TestError;
+  unexpectedPass?: boolean;
+  consoleErrors?: string;
+  /** Structured form of `consoleErrors`, when the fixtures attached JSON. */
+  consoleEntries?: ConsoleEntry[];
+  networkFailures?: string;
+  /** Structured form of `networkFailures`, when the fixtures attached JSON. */
+  networkEntries?: NetworkEntry[];
+  /** Set when the fixtures ignored at least one entry. */
+  suppressed?: SuppressedCounts;
+  /** Set when `failOnConsoleError` or `failOnNetworkFailure` failed the test. */
+  strict?: StrictViolations;
+  /** Every attempt, oldest first. Only set with `retryDetails` when the test was retried. */
+  attempts?: AttemptRecord[];
+};
+
+export type TestOutcome = 'passed' | 'failed' | 'flaky' | 'pending' | 'skipped';
+
+export type AttachmentRecord = {
+  name: string;
+  contentType: string;
+  path?: string;
+  /** Size in bytes of an attachment kept in memory rather than on disk. */
+  size?: number;
+};
+
+export type TestRecord = {
+  titlePath: string[];
+  title: string;
+  /** Empty before Playwright 1.42, which introduced tags. */
+  tags: string[];
+  outcome: TestOutcome;
+  /** Status of the final attempt; `failed` on an `expected` outcome is an expected failure. */
+  status: TestResult['status'];
+  duration: number;
+  annotations: Array<{ type: string; description?: string }>;
+  attachments: AttachmentRecord[];
+  /** Worker slot of the final attempt; absent when Playwright did not report one. */
+  parallelIndex?: number;
+  failure?: FailedTest;
+  attempts?: AttemptRecord[];
+};
+
+export type SpecStats = {
+  filePath: string;
+  fileName: string;
+  total: number;
+  completed: number;
+  passing: number;
+  failing: number;
+  flaky: number;
+  pending: number;
+  skipped: number;
+  /** Sum of every attempt's duration, independent of how workers interleave. */
+  testTime: number;
+  startedAt: number;
+  endedAt: number;
+  videoPaths: Set<string>;
+  screenshotPaths: Set<string>;
+  /** In the order the tests finished. */
+  tests: TestRecord[];
+};
+
+export type WorkerStats = {
+  parallelIndex: number;
+  /** Attempts the worker ran; a retried test counts once per attempt. */
+  attempts: number;
+  busy: number;
+};
+
+export type RunTotals = {
+  tests: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  pending: number;
+  skipped: number;
+};
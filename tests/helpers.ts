@@ -1,22 +1,47 @@
-import JenkinsReporter from '../src/index';
+import { EventEmitter } from 'events';
+import { capturePageReport } from '../src/capture';
+import type { ConsoleReportOptions } from '../src/fixtures';
+import JenkinsReporter, {
+  type ConsoleEntry,
+  type NetworkEntry,
+  type ReporterOptions,
+  type StrictViolations,
+  type SuppressedCounts,
+} from '../src/index';
 
 export type SpecInput = {
   filePath: string;
   title?: string;
+  project?: string;
   status?: 'passed' | 'failed' | 'skipped';
   outcome?: 'expected' | 'unexpected' | 'flaky' | 'skipped';
-  annotations?: { type: string }[];
+  annotations?: { type: string; description?: string }[];
+  tags?: string[];
   consoleErrors?: string;
+  consoleEntries?: ConsoleEntry[];
   networkFailures?: string;
+  networkEntries?: NetworkEntry[];
+  suppressed?: SuppressedCounts;
+  strict?: StrictViolations;
+  screenshotPath?: string;
+  videoPath?: string;
 };
 
-export const GREEN = '\u001b[32m';
-export const RED   = '\u001b[31m';
-export const RESET = '\u001b[0m';
+export const GREEN  = '\u001b[32m';
+export const RED    = '\u001b[31m';
+export const YELLOW = '\u001b[33m';
+export const CYAN   = '\u001b[36m';
+export const BOLD   = '\u001b[1m';
+export const DIM    = '\u001b[2m';
+export const RESET  = '\u001b[0m';
 
-export function makeConfig(): any {
+export function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+export function makeConfig(workers = 1): any {
   return {
-    workers: 1,
+    workers,
     projects: [{ use: { browserName: 'chromium', headless: true }, name: 'chromium' }],
   };
 }
@@ -27,39 +52,87 @@ export function makeSuite(specs: SpecInput[]): any {
       specs.map((spec) => ({
         location: { file: spec.filePath },
         title: spec.title ?? 'test',
-        titlePath: () => ['', 'chromium', spec.filePath, spec.title ?? 'test'],
+        titlePath: () => ['', spec.project ?? 'chromium', spec.filePath, spec.title ?? 'test'],
         outcome: () => 'expected',
         annotations: spec.annotations ?? [],
       })),
   };
 }
 
-export function makeTest(filePath: string, title: string, status: 'passed' | 'failed' | 'skipped', opts: { outcome?: string; annotations?: { type: string }[] } = {}): any {
+export function makeTest(filePath: string, title: string, status: 'passed' | 'failed' | 'skipped', opts: { outcome?: string; annotations?: { type: string; description?: string }[]; tags?: string[]; project?: string } = {}): any {
+  const project = opts.project ?? 'chromium';
   return {
+    id: `${project}::${filePath}::${title}`,
     location: { file: filePath },
     title,
     retries: 0,
-    titlePath: () => ['', 'chromium', filePath, 'Suite', title],
+    titlePath: () => ['', project, filePath, 'Suite', title],
     outcome: () => opts.outcome ?? (status === 'passed' ? 'expected' : status === 'skipped' ? 'skipped' : 'unexpected'),
     annotations: opts.annotations ?? [],
+    tags: opts.tags ?? [],
   };
 }
 
 export function makeResult(
   status: 'passed' | 'failed' | 'skipped',
-  opts: { consoleErrors?: string; networkFailures?: string } = {},
+  opts: {
+    consoleErrors?: string;
+    consoleEntries?: ConsoleEntry[];
+    networkFailures?: string;
+    networkEntries?: NetworkEntry[];
+    suppressed?: SuppressedCounts;
+    strict?: StrictViolations;
+    screenshotPath?: string;
+    videoPath?: string;
+  } = {},
 ): any {
   const attachments: any[] = [];
   if (opts.consoleErrors) {
     attachments.push({ name: 'console-errors', body: Buffer.from(opts.consoleErrors), contentType: 'text/plain' });
   }
+  if (opts.consoleEntries) {
+    attachments.push({
+      name: 'console-errors',
+      body: Buffer.from(JSON.stringify(opts.consoleEntries)),
+      contentType: 'application/json',
+    });
+  }
   if (opts.networkFailures) {
     attachments.push({ name: 'network-failures', body: Buffer.from(opts.networkFailures), contentType: 'text/plain' });
   }
+  if (opts.networkEntries) {
+    attachments.push({
+      name: 'network-failures',
+      body: Buffer.from(JSON.stringify(opts.networkEntries)),
+      contentType: 'application/json',
+    });
+  }
+  if (opts.suppressed) {
+    attachments.push({
+      name: 'report-suppressed',
+      body: Buffer.from(JSON.stringify(opts.suppressed)),
+      contentType: 'application/json',
+    });
+  }
+  if (opts.strict) {
+    attachments.push({
+      name: 'report-strict',
+      body: Buffer.from(JSON.stringify(opts.strict)),
+      contentType: 'application/json',
+    });
+  }
+  if (opts.screenshotPath) {
+    attachments.push({ name: 'screenshot', path: opts.screenshotPath, contentType: 'image/png' });
+  }
+  if (opts.videoPath) {
+    attachments.push({ name: 'video', path: opts.videoPath, contentType: 'video/webm' });
+  }
   return {
     status,
     duration: 500,
     retry: 0,
+    workerIndex: 0,
+    parallelIndex: 0,
     attachments,
     error: status === 'failed' ? { message: 'Expected true to be false', stack: '    at Object.<anonymous> (test.spec.ts:10:5)' } : undefined,
     errors: status === 'failed' ? [{ message: 'Expected true to be false' }] : [],
@@ -67,11 +140,11 @@ export function makeResult(
   };
 }
 
-export function runReporter(specs: SpecInput[]): string {
+export function runReporter(specs: SpecInput[], options?: ReporterOptions): string {
   const output: string[] = [];
-  const reporter = new JenkinsReporter() as any;
-  reporter.write = (msg: string) => output.push(msg);
-  Object.defineProperty(reporter, 'useColor', { value: true, configurable: true });
+  const reporter = new JenkinsReporter(options) as any;
+  reporter.consoleRenderer.write = (msg: string) => output.push(msg);
+  Object.defineProperty(reporter.consoleRenderer, 'useColor', { value: true, configurable: true });
 
   reporter.onBegin(makeConfig(), makeSuite(specs));
 
@@ -81,10 +154,18 @@ export function runReporter(specs: SpecInput[]): string {
     const test = makeTest(spec.filePath, title, status, {
       outcome: spec.outcome,
       annotations: spec.annotations,
+      tags: spec.tags,
+      project: spec.project,
     });
     const result = makeResult(status, {
       consoleErrors: spec.consoleErrors,
+      consoleEntries: spec.consoleEntries,
       networkFailures: spec.networkFailures,
+      networkEntries: spec.networkEntries,
+      suppressed: spec.suppressed,
+      strict: spec.strict,
+      screenshotPath: spec.screenshotPath,
+      videoPath: spec.videoPath,
     });
     reporter.onTestBegin(test);
     reporter.onTestEnd(test, result);
@@ -101,3 +182,126 @@ export function runReporter(specs: SpecInput[]): string {
 
   return output.join('');
 }
+
+export type FixtureTestInfo = {
+  status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+  expectedStatus: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+  attachments: Record<string, unknown>;
+  attach: (name: string, options: { body: string; contentType: string }) => Promise<void>;
+};
+
+export function makeTestInfo(
+  status: FixtureTestInfo['status'],
+  expectedStatus: FixtureTestInfo['expectedStatus'] = 'passed',
+): FixtureTestInfo {
+  const attachments: Record<string, unknown> = {};
+  return {
+    status,
+    expectedStatus,
+    attachments,
+    attach: async (name, { body }) => {
+      attachments[name] = JSON.parse(body);
+    },
+  };
+}
+
+export type FakeConsoleSource = {
+  page?: unknown;
+  /** Script URL of the worker that logged the message. */
+  worker?: string;
+  location?: { url: string; lineNumber: number; columnNumber: number };
+};
+
+export function makeConsoleMessage(text: string, type = 'error', source: FakeConsoleSource = {}): any {
+  return {
+    type: () => type,
+    text: () => text,
+    location: () => source.location ?? { url: '', lineNumber: 0, columnNumber: 0 },
+    page: () => source.page ?? null,
+    worker: () => (source.worker ? { url: () => source.worker } : null),
+  };
+}
+
+export type FakeRequest = {
+  method?: string;
+  headers?: Record<string, string>;
+  failure?: string;
+  /** The page whose frame sent the request; without one the request has no frame. */
+  page?: unknown;
+  /** Script URL of the service worker that sent the request. */
+  serviceWorker?: string;
+};
+
+export function makeRequest(url: string, options: FakeRequest = {}): any {
+  return {
+    serviceWorker: () => (options.serviceWorker ? { url: () => options.serviceWorker } : null),
+    frame: () => {
+      if (!options.page) {
+        throw new Error('no frame');
+      }
+      return { page: () => options.page };
+    },
+    timing: () => ({ responseEnd: 12 }),
+    method: () => options.method ?? 'GET',
+    url: () => url,
+    resourceType: () => 'fetch',
+    headers: () => options.headers ?? {},
+    failure: () => (options.failure ? { errorText: options.failure } : null),
+  };
+}
+
+export type FakeResponse = FakeRequest & {
+  status: number;
+  body?: string;
+  responseHeaders?: Record<string, string>;
+  /** The response never finishes, like a stalled stream. */
+  streaming?: boolean;
+};
+
+export function makeResponse(url: string, response: FakeResponse): any {
+  const request = makeRequest(url, response);
+  const readBody = jest.fn(async () => response.body ?? '');
+  return {
+    readBody,
+    finished: jest.fn(() => (response.streaming ? new Promise<null>(() => undefined) : Promise.resolve(null))),
+    request: () => request,
+    url: () => url,
+    status: () => response.status,
+    headers: () => response.responseHeaders ?? { 'content-type': 'application/json' },
+    text: readBody,
+  };
+}
+
+export function makePage(context: EventEmitter): EventEmitter & { context: () => EventEmitter } {
+  return Object.assign(new EventEmitter(), { context: () => context });
+}
+
+/**
+ * Runs the `page` fixture body against EventEmitter fakes. `during` plays
+ * the test, emitting events on the context and the test's page.
+ */
+export function runPageFixture(
+  testInfo: FixtureTestInfo,
+  options: Partial<ConsoleReportOptions>,
+  during: (context: EventEmitter, page: EventEmitter) => void,
+): Promise<void> {
+  const context = new EventEmitter();
+  const page = makePage(context);
+  return capturePageReport(
+    page as any,
+    context as any,
+    {
+      consoleReportLevels: ['error', 'warning'],
+      networkReportHeaders: [],
+      networkReportBodyLimit: 2000,
+      consoleReportIgnore: [],
+      networkReportIgnoreUrls: [],
+      networkReportIgnoreStatuses: [],
+      failOnConsoleError: false,
+      failOnNetworkFailure: false,
+      ...options,
+    },
+    async () => during(context, page),
+    testInfo as any,
+  );
+}
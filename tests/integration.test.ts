@@ -1,4 +1,33 @@
-import { GREEN, RED, RESET, runReporter } from './helpers';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JenkinsReporter, { type Renderer, type ReporterOptions } from '../src/index';
+import { GITHUB_STEP_SUMMARY_LIMIT } from '../src/ci';
+import { run as runCli } from '../src/cli';
+import { mergeShardData, readShardData } from '../src/shard';
+import {
+  BOLD,
+  CYAN,
+  DIM,
+  GREEN,
+  RED,
+  RESET,
+  YELLOW,
+  makeConfig,
+  makeConsoleMessage,
+  makePage,
+  makeRequest,
+  makeResponse,
+  makeResult,
+  makeSuite,
+  makeTest,
+  makeTestInfo,
+  runPageFixture,
+  runReporter,
+  stripAnsi,
+  type SpecInput,
+} from './helpers';
 
 describe('JenkinsReporter — integration', () => {
   const FILE = '/project/tests/login.spec.ts';
@@ -213,4 +242,1552 @@ describe('JenkinsReporter — integration', () => {
       expect(out).toContain('Skipped: 0');
     });
   });
+
+  describe('reporter options', () => {
+    it('prints a (Reporter Options) error for unknown keys', () => {
+      const out = runReporter([{ filePath: FILE, status: 'passed' }], { colour: false } as any);
+      expect(out).toContain('(Reporter Options)');
+      expect(out).toContain('Unknown option "colour"');
+    });
+
+    it('omits the screenshot and video sections when disabled', () => {
+      const spec = { filePath: FILE, status: 'failed' as const, screenshotPath: '/tmp/shot.png', videoPath: '/tmp/video.webm' };
+      expect(runReporter([spec])).toContain('(Screenshots)');
+      const out = runReporter([spec], {
+        showScreenshots: false,
+        showVideos: false,
+      });
+      expect(out).not.toContain('(Screenshots)');
+      expect(out).not.toContain('(Video)');
+    });
+  });
+
+  describe('JSON summary', () => {
+    let dir: string;
+    let report: any;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-json-'));
+      runReporter(
+        [
+          { filePath: FILE, title: 'logs in', status: 'passed' },
+          {
+            filePath: FILE,
+            title: 'broken test',
+            status: 'failed',
+            consoleErrors: '[console.error] boom',
+            networkFailures: '[404] GET https://api.example.com/data\n[500] POST https://api.example.com/save',
+          },
+          { filePath: '/project/tests/cart.spec.ts', title: 'later', status: 'skipped' },
+        ],
+        { jsonOutputFile: 'out/summary.json', configDir: dir },
+      );
+      report = JSON.parse(fs.readFileSync(path.join(dir, 'out/summary.json'), 'utf-8'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes a versioned report with run totals', () => {
+      expect(report.schemaVersion).toBe(1);
+      expect(report.status).toBe('failed');
+      expect(report.totals).toEqual({ tests: 3, passed: 1, failed: 1, flaky: 0, pending: 0, skipped: 1 });
+    });
+
+    it('includes per-spec counters in spec order', () => {
+      expect(report.specs.map((s: any) => s.fileName)).toEqual(['login.spec.ts', 'cart.spec.ts']);
+      expect(report.specs[0]).toMatchObject({ tests: 2, passed: 1, failed: 1 });
+      expect(typeof report.specs[0].durationMs).toBe('number');
+    });
+
+    it('includes failure details with attachment lines', () => {
+      const failure = report.specs[0].failures[0];
+      expect(failure.project).toBe('chromium');
+      expect(failure.titlePath).toEqual(['chromium', FILE, 'Suite', 'broken test']);
+      expect(failure.message).toBe('Expected true to be false');
+      expect(failure.stack).toEqual(['at Object.<anonymous> (test.spec.ts:10:5)']);
+      expect(failure.consoleErrors).toEqual(['[console.error] boom']);
+      expect(failure.networkFailures).toHaveLength(2);
+    });
+
+    it('strips colour codes from messages and attachment lines', () => {
+      const reporter = new JenkinsReporter({ jsonOutputFile: 'ansi.json', configDir: dir, retryDetails: true }) as any;
+      reporter.consoleRenderer.write = () => undefined;
+      const test = { ...makeTest(FILE, 'coloured', 'failed'), retries: 1 };
+      const message = `Error: ${DIM}expect(${RESET}${RED}received${RESET}${DIM}).toBe(${RESET}${GREEN}expected${RESET}${DIM})${RESET}`;
+      reporter.onBegin(makeConfig(), makeSuite([{ filePath: FILE }]));
+      reporter.onTestBegin(test);
+      reporter.onTestEnd(test, { ...makeResult('failed'), error: { message, stack: '' } });
+      reporter.onTestEnd(test, {
+        ...makeResult('failed', { consoleErrors: `${RED}[console.error] boom${RESET}` }),
+        retry: 1,
+        error: { message, stack: '' },
+      });
+      reporter.onEnd({ status: 'failed' });
+
+      const failure = JSON.parse(fs.readFileSync(path.join(dir, 'ansi.json'), 'utf-8')).specs[0].failures[0];
+      expect(failure.message).toBe('Error: expect(received).toBe(expected)');
+      expect(failure.attempts.map((attempt: any) => attempt.message)).toEqual([
+        'Error: expect(received).toBe(expected)',
+        'Error: expect(received).toBe(expected)',
+      ]);
+      expect(failure.consoleErrors).toEqual(['[console.error] boom']);
+    });
+  });
+
+  describe('JUnit XML', () => {
+    let dir: string;
+    let xml: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-junit-'));
+      runReporter(
+        [
+          { filePath: FILE, title: 'logs in', status: 'passed' },
+          { filePath: FILE, title: 'retried', status: 'passed', outcome: 'flaky' },
+          { filePath: FILE, title: 'todo', status: 'skipped', annotations: [{ type: 'fixme' }] },
+          {
+            filePath: FILE,
+            title: 'broken <test>',
+            status: 'failed',
+            consoleErrors: '[console.error] boom',
+            networkFailures: '[404] GET https://api.example.com/data?a=1&b=2',
+          },
+        ],
+        { junitOutputFile: 'junit.xml', configDir: dir },
+      );
+      xml = fs.readFileSync(path.join(dir, 'junit.xml'), 'utf-8');
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('uses the console table counters', () => {
+      expect(xml).toContain('<testsuites name="playwright-terminal-reporter" tests="4" failures="1" skipped="1" errors="0"');
+    });
+
+    it('reports flaky tests as passes and fixme tests as skipped', () => {
+      expect(xml).toMatch(/<testcase name="\[chromium\] Suite › retried"[^>]*>\s*<system-out>Passed on retry/);
+      expect(xml).toContain('<skipped message="fixme"/>');
+    });
+
+    it('escapes failure details and places attachments in system-out / system-err', () => {
+      expect(xml).toContain('name="[chromium] Suite › broken &lt;test&gt;"');
+      expect(xml).toContain('<failure message="Expected true to be false" type="failure">');
+      expect(xml).toContain('<system-out>[console.error] boom</system-out>');
+      expect(xml).toContain('<system-err>[404] GET https://api.example.com/data?a=1&amp;b=2</system-err>');
+    });
+  });
+
+  describe('streaming mode', () => {
+    it('prints the same spec block as buffered mode', () => {
+      const specs = [
+        { filePath: FILE, title: 'logs in', status: 'passed' as const },
+        { filePath: FILE, title: 'logs out', status: 'failed' as const },
+      ];
+      expect(runReporter(specs, { streaming: true })).toBe(runReporter(specs));
+    });
+
+    it('prints test lines as they finish and re-labels interleaved specs', () => {
+      const other = '/project/tests/cart.spec.ts';
+      const output: string[] = [];
+      const reporter = new JenkinsReporter({ streaming: true, color: false }) as any;
+      reporter.consoleRenderer.write = (msg: string) => output.push(msg);
+
+      const login = makeTest(FILE, 'logs in', 'passed');
+      const cart = makeTest(other, 'adds item', 'passed');
+      reporter.onBegin(makeConfig(), makeSuite([{ filePath: FILE }, { filePath: other }]));
+      reporter.onTestBegin(login);
+      expect(output.join('')).toContain('Running:  login.spec.ts (1 of 2)');
+
+      reporter.onTestBegin(cart);
+      reporter.onTestEnd(login, makeResult('passed'));
+      const text = output.join('');
+      expect(text).toContain('Running:  cart.spec.ts (2 of 2)');
+      expect(text).toMatch(/Running: {2}login\.spec\.ts \(1 of 2\) \(continued\)\n\n {4}✔ logs in/);
+      expect(text.indexOf('(Results)')).toBeGreaterThan(text.indexOf('✔ logs in'));
+
+      reporter.onTestEnd(cart, makeResult('passed'));
+      expect(output.join('')).toMatch(/\(continued\)\n\n {4}✔ adds item/);
+    });
+
+    it('re-labels the results of a spec that ends under another spec\'s header', () => {
+      const other = '/project/tests/cart.spec.ts';
+      const output: string[] = [];
+      const reporter = new JenkinsReporter({ streaming: true, color: false }) as any;
+      reporter.consoleRenderer.write = (msg: string) => output.push(msg);
+
+      const login = makeTest(FILE, 'logs in', 'failed');
+      const logout = makeTest(FILE, 'logs out', 'passed');
+      const cart = makeTest(other, 'adds item', 'passed');
+      reporter.onBegin(makeConfig(2), makeSuite([{ filePath: FILE }, { filePath: FILE }, { filePath: other }]));
+      reporter.onTestBegin(login);
+      reporter.onTestEnd(login, makeResult('failed'));
+      reporter.onTestBegin(cart);
+      reporter.onEnd({ status: 'interrupted' });
+
+      const text = output.join('');
+      const results = text.indexOf('(Results)');
+      expect(text.lastIndexOf('Running:', results)).toBe(
+        text.indexOf('Running:  login.spec.ts (1 of 2) (continued)'),
+      );
+      expect(text.indexOf('Running:  cart.spec.ts (2 of 2)')).toBeLessThan(results);
+    });
+  });
+
+  describe('parallel workers', () => {
+    const other = '/project/tests/cart.spec.ts';
+    let output: string;
+
+    beforeAll(() => {
+      const lines: string[] = [];
+      const reporter = new JenkinsReporter({ color: false, workerUtilization: true }) as any;
+      reporter.consoleRenderer.write = (msg: string) => lines.push(msg);
+
+      const login = makeTest(FILE, 'logs in', 'passed');
+      const cart = makeTest(other, 'adds item', 'passed');
+      reporter.onBegin(makeConfig(2), makeSuite([{ filePath: FILE }, { filePath: other }]));
+      reporter.onTestBegin(login);
+      reporter.onTestBegin(cart);
+      reporter.onTestEnd(login, { ...makeResult('passed'), duration: 61_000, parallelIndex: 0 });
+      reporter.onTestEnd(cart, { ...makeResult('passed'), duration: 2_000, parallelIndex: 1 });
+      reporter.onEnd({ status: 'passed' });
+      output = lines.join('');
+    });
+
+    it('tags each test line with its worker', () => {
+      expect(output).toContain('    ✔ logs in (61.0s) [w0]');
+      expect(output).toContain('    ✔ adds item (2.0s) [w1]');
+    });
+
+    it('uses cumulative test time for the Duration column and box', () => {
+      expect(output).toMatch(/login\.spec\.ts\s+01:01/);
+      expect(output).toMatch(/cart\.spec\.ts\s+00:02/);
+      expect(output).toContain('Duration: 61 seconds');
+      expect(output).toContain('Wall Time:');
+    });
+
+    it('prints the worker utilization section', () => {
+      expect(output).toContain('(Worker Utilization)');
+      expect(output).toContain('    Worker   Attempts     Busy     Idle Utilization\n');
+      expect(output).toMatch(/\n {4}0 +1 +/);
+      expect(output).toMatch(/\n {4}1 +1 +/);
+    });
+
+    it('counts every attempt of a retried test', () => {
+      const lines: string[] = [];
+      const reporter = new JenkinsReporter({ color: false, workerUtilization: true }) as any;
+      reporter.consoleRenderer.write = (msg: string) => lines.push(msg);
+      const flaky = { ...makeTest(FILE, 'sometimes fails', 'passed', { outcome: 'flaky' }), retries: 1 };
+      reporter.onBegin(makeConfig(2), makeSuite([{ filePath: FILE }]));
+      reporter.onTestBegin(flaky);
+      reporter.onTestEnd(flaky, { ...makeResult('failed'), retry: 0, parallelIndex: 0 });
+      reporter.onTestEnd(flaky, { ...makeResult('passed'), retry: 1, parallelIndex: 0 });
+      reporter.onEnd({ status: 'passed' });
+      expect(lines.join('')).toMatch(/\n {4}0 +2 +/);
+    });
+
+    it('omits worker tags with a single worker', () => {
+      const single = runReporter([{ filePath: FILE, title: 'logs in', status: 'passed' }]);
+      expect(single).not.toContain('[w0]');
+      expect(single).not.toContain('(Worker Utilization)');
+    });
+  });
+
+  describe('sharded runs', () => {
+    const CART = '/project/tests/cart.spec.ts';
+    const specs: SpecInput[] = [
+      { filePath: FILE, title: 'logs in', status: 'passed' },
+      { filePath: FILE, title: 'logs out', status: 'failed', consoleErrors: '[console.error] boom' },
+      { filePath: CART, title: 'adds item', status: 'passed' },
+      { filePath: CART, title: 'removes item', status: 'skipped' },
+    ];
+    let dir: string;
+
+    const runShard = (shardSpecs: SpecInput[], current: number, total: number, options: ReporterOptions = {}) => {
+      const reporter = new JenkinsReporter({ color: false, shardDataDir: dir, ...options }) as any;
+      reporter.consoleRenderer.write = () => undefined;
+      reporter.onBegin(
+        { ...makeConfig(), shard: { current, total }, rootDir: '/project' },
+        makeSuite(shardSpecs),
+      );
+      for (const spec of shardSpecs) {
+        const test = makeTest(spec.filePath, spec.title!, spec.status!);
+        reporter.onTestBegin(test);
+        reporter.onTestEnd(test, makeResult(spec.status!, { consoleErrors: spec.consoleErrors }));
+      }
+      reporter.onEnd({ status: shardSpecs.some((spec) => spec.status === 'failed') ? 'failed' : 'passed' });
+    };
+
+    const renderMerged = (options: ReporterOptions = {}) => {
+      const output: string[] = [];
+      const reporter = new JenkinsReporter({ color: false, ...options }) as any;
+      reporter.consoleRenderer.write = (msg: string) => output.push(msg);
+      reporter.printMergedRun(mergeShardData(readShardData(dir)));
+      return output.join('');
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-shards-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes one data file per shard', () => {
+      runShard(specs.slice(0, 2), 1, 2);
+      runShard(specs.slice(2), 2, 2);
+      expect(fs.readdirSync(dir).sort()).toEqual(['shard-1-of-2.json', 'shard-2-of-2.json']);
+    });
+
+    it('renders the same report as a single run, including specs split across shards', () => {
+      runShard(specs.slice(0, 1), 1, 3);
+      runShard(specs.slice(1, 3), 2, 3);
+      runShard(specs.slice(3), 3, 3);
+
+      const single = stripAnsi(runReporter(specs, { color: false }));
+      expect(renderMerged()).toBe(single);
+    });
+
+    it('keeps the history of the merged run, not of each shard', () => {
+      const historyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-history-'));
+      try {
+        const options = { historyFile: 'history.json', configDir: historyDir };
+        runShard(specs.slice(0, 2), 1, 2, options);
+        runShard(specs.slice(2), 2, 2, options);
+        expect(fs.existsSync(path.join(historyDir, 'history.json'))).toBe(false);
+
+        renderMerged(options);
+        const history = JSON.parse(fs.readFileSync(path.join(historyDir, 'history.json'), 'utf-8'));
+        expect(history.runs).toHaveLength(1);
+        expect(Object.keys(history.runs[0].tests)).toHaveLength(4);
+      } finally {
+        fs.rmSync(historyDir, { recursive: true, force: true });
+      }
+    });
+
+    it('only reads the data files the reporter writes', () => {
+      runShard(specs, 1, 1);
+      fs.writeFileSync(path.join(dir, 'package.json'), '{"name": "app"}');
+      expect(readShardData(dir)).toHaveLength(1);
+    });
+
+    it('rejects a flag as the value of a merge option', async () => {
+      const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      try {
+        expect(await runCli(['merge', dir, '--json-output-file', '--no-color'])).toBe(2);
+        expect(await runCli(['merge', dir, '--json-output-file'])).toBe(2);
+        expect(stderr).toHaveBeenCalledWith(expect.stringContaining('Missing value for --json-output-file'));
+      } finally {
+        stderr.mockRestore();
+      }
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    it('combines status and reports missing shards', () => {
+      runShard(specs.slice(0, 2), 1, 3);
+      runShard(specs.slice(2), 3, 3);
+      const merged = mergeShardData(readShardData(dir));
+      expect(merged.status).toBe('failed');
+      expect(merged.missingShards).toEqual([2]);
+      expect(renderMerged()).toContain('Missing data for shard(s) 2 of 3');
+    });
+  });
+
+  describe('retry details', () => {
+    const attempt = (status: 'passed' | 'failed', retry: number, message?: string) => ({
+      ...makeResult(status),
+      retry,
+      duration: 1200,
+      error: message ? { message, stack: '' } : undefined,
+    });
+
+    const run = (retryDetails: boolean) => {
+      const output: string[] = [];
+      const reporter = new JenkinsReporter({ color: false, retryDetails }) as any;
+      reporter.consoleRenderer.write = (msg: string) => output.push(msg);
+
+      const flaky = { ...makeTest(FILE, 'sometimes fails', 'passed', { outcome: 'flaky' }), retries: 2 };
+      const broken = { ...makeTest(FILE, 'always fails', 'failed'), retries: 1 };
+      reporter.onBegin(makeConfig(), makeSuite([{ filePath: FILE }, { filePath: FILE }]));
+      reporter.onTestBegin(flaky);
+      reporter.onTestEnd(flaky, attempt('failed', 0, 'Error: socket hang up'));
+      reporter.onTestEnd(flaky, attempt('passed', 1));
+      reporter.onTestBegin(broken);
+      reporter.onTestEnd(broken, attempt('failed', 0, 'Error: timeout waiting for selector'));
+      reporter.onTestEnd(broken, attempt('failed', 1, 'Error: element detached'));
+      reporter.onEnd({ status: 'failed' });
+      return output.join('');
+    };
+
+    it('prints a (Flaky Details) section with each failed attempt', () => {
+      const output = run(true);
+      expect(output).toContain('(Flaky Details)');
+      expect(output).toContain('  1) chromium > /project/tests/login.spec.ts > Suite > sometimes fails');
+      expect(output).toContain('     Attempt 1: failed (1.2s) — Error: socket hang up');
+      expect(output).not.toContain('Attempt 2: passed');
+    });
+
+    it('lists every attempt of a failed test', () => {
+      const output = run(true);
+      expect(output).toContain('     (Attempts)');
+      expect(output).toContain('       Attempt 1: failed (1.2s) — Error: timeout waiting for selector');
+      expect(output).toContain('       Attempt 2: failed (1.2s) — Error: element detached');
+    });
+
+    it('keeps only the final attempt by default', () => {
+      const output = run(false);
+      expect(output).not.toContain('(Flaky Details)');
+      expect(output).not.toContain('(Attempts)');
+      expect(output).toContain('Error: element detached');
+    });
+  });
+
+  describe('code frames', () => {
+    let dir: string;
+    let specFile: string;
+
+    const runWithError = (error: any, options = {}) => {
+      const output: string[] = [];
+      const reporter = new JenkinsReporter({ color: false, ...options }) as any;
+      reporter.consoleRenderer.write = (msg: string) => output.push(msg);
+      const test = makeTest(specFile, 'checks heading', 'failed');
+      reporter.onBegin(makeConfig(), makeSuite([{ filePath: specFile }]));
+      reporter.onTestBegin(test);
+      reporter.onTestEnd(test, { ...makeResult('failed'), error });
+      reporter.onEnd({ status: 'failed' });
+      return output.join('');
+    };
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-frame-'));
+      specFile = path.join(dir, 'heading.spec.ts');
+      fs.writeFileSync(
+        specFile,
+        ["test('checks heading', async ({ page }) => {", "  await page.goto('/');", "  await expect(page.locator('h1')).toHaveText('Hi');", '});'].join('\n'),
+      );
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reads the source at the first user frame when no snippet is given', () => {
+      const output = runWithError({
+        message: 'Error: expect(locator).toHaveText(expected)',
+        stack: `Error: boom\n    at /app/node_modules/playwright/lib/x.js:1:1\n    at ${specFile}:3:37`,
+      });
+      expect(output).toContain("     > 3 |   await expect(page.locator('h1')).toHaveText('Hi');");
+      expect(output).toContain(`       |${' '.repeat(37)}^`);
+      expect(output).toContain('       1 | test(');
+    });
+
+    it('prefers the snippet provided by Playwright', () => {
+      const output = runWithError({ message: 'Error', snippet: '  > 9 | custom snippet', stack: `at ${specFile}:3:37` });
+      expect(output).toContain('       > 9 | custom snippet');
+      expect(output).not.toContain('> 3 |');
+    });
+
+    it('can be disabled', () => {
+      const output = runWithError({ message: 'Error', stack: `at ${specFile}:3:37` }, { codeFrames: false });
+      expect(output).not.toContain('> 3 |');
+    });
+  });
+
+  describe('slowest tests', () => {
+    const CART = '/project/tests/cart.spec.ts';
+    const run = (options: object) => {
+      const output: string[] = [];
+      const reporter = new JenkinsReporter({ color: false, ...options }) as any;
+      reporter.consoleRenderer.write = (msg: string) => output.push(msg);
+      const timings: [string, string, number][] = [
+        [FILE, 'logs in', 1_000],
+        [FILE, 'logs out', 400],
+        [CART, 'pays by card', 12_300],
+      ];
+      reporter.onBegin(makeConfig(), makeSuite(timings.map(([filePath]) => ({ filePath }))));
+      for (const [filePath, title, duration] of timings) {
+        const test = makeTest(filePath, title, 'passed');
+        reporter.onTestBegin(test);
+        reporter.onTestEnd(test, { ...makeResult('passed'), duration });
+      }
+      reporter.onEnd({ status: 'passed' });
+      return output.join('');
+    };
+
+    it('lists the top N tests by duration with spec and project', () => {
+      const output = run({ slowestTests: 2 });
+      expect(output).toContain('(Slowest Tests)');
+      expect(output).toContain('    1. 12.3s  cart.spec.ts  [chromium]  Suite > pays by card');
+      expect(output).toContain('    2.  1.0s  login.spec.ts  [chromium]  Suite > logs in');
+      expect(output).not.toContain('Suite > logs out');
+    });
+
+    it('leaves out the tag of an unnamed project', () => {
+      const output = stripAnsi(runReporter([{ filePath: FILE, title: 'logs in', project: '', status: 'passed' }], { slowestTests: 1 }));
+      expect(output).toContain('    1. 500ms  login.spec.ts  Suite > logs in\n');
+    });
+
+    it('flags specs above the configured share of total test time', () => {
+      const output = run({ slowSpecShare: 0.5 });
+      expect(output).toContain('Specs over 50% of total test time:');
+      expect(output).toContain('⚠ cart.spec.ts 00:12 (90%)');
+      expect(output).not.toContain('⚠ login.spec.ts');
+    });
+
+    it('marks test lines over the threshold', () => {
+      const output = run({ slowTestThreshold: 5_000 });
+      expect(output).toContain('    ✔ pays by card (12.3s) (slow: 12.3s)');
+      expect(output).toContain('    ✔ logs in (1.0s)\n');
+    });
+
+    it('is off by default', () => {
+      expect(run({})).not.toContain('(Slowest Tests)');
+    });
+  });
+
+  describe('run history', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-history-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const run = (status: 'passed' | 'failed', historySize?: number) =>
+      runReporter([{ filePath: FILE, title: 'logs in', status }], {
+        color: false,
+        historyFile: 'history.json',
+        historySize,
+        configDir: dir,
+      });
+
+    it('appends each run and marks new, continuing and fixed failures', () => {
+      expect(run('passed')).not.toContain('(History');
+      expect(run('failed')).toContain('✖ new failure  chromium › /project/tests/login.spec.ts › Suite › logs in');
+      expect(run('failed')).toContain('✖ still failing (2 runs)');
+      expect(run('passed')).toContain('✔ fixed');
+
+      const history = JSON.parse(fs.readFileSync(path.join(dir, 'history.json'), 'utf-8'));
+      expect(history.runs).toHaveLength(4);
+    });
+
+    it('keeps at most historySize runs', () => {
+      for (let index = 0; index < 4; index += 1) {
+        run('passed', 2);
+      }
+      const history = JSON.parse(fs.readFileSync(path.join(dir, 'history.json'), 'utf-8'));
+      expect(history.runs).toHaveLength(2);
+    });
+
+    it('reports an unreadable history file without overwriting it', () => {
+      fs.writeFileSync(path.join(dir, 'history.json'), '{"version": 99}');
+      expect(run('passed')).toContain('(History)');
+      expect(fs.readFileSync(path.join(dir, 'history.json'), 'utf-8')).toBe('{"version": 99}');
+    });
+  });
+
+  describe('structured console entries', () => {
+    let output: string;
+
+    beforeAll(() => {
+      output = stripAnsi(runReporter(
+        [
+          {
+            filePath: FILE,
+            title: 'broken test',
+            status: 'failed',
+            consoleEntries: [
+              { type: 'console', level: 'warning', text: 'Deprecated API', time: 200 },
+              {
+                type: 'console',
+                level: 'error',
+                text: 'Failed to load resource',
+                location: 'http://localhost:3000/app.js:10:5',
+                time: 1200,
+              },
+              {
+                type: 'pageerror',
+                level: 'error',
+                text: 'TypeError: foo is not a function',
+                stack: 'TypeError: foo is not a function\n    at bar (http://localhost:3000/app.js:3:7)',
+                time: 1500,
+              },
+            ],
+          },
+        ],
+      ));
+    });
+
+    it('groups entries by type with page errors first', () => {
+      const pageErrors = output.indexOf('       Page errors:');
+      const errors = output.indexOf('       console.error:');
+      const warnings = output.indexOf('       console.warning:');
+      expect(pageErrors).toBeGreaterThan(-1);
+      expect(errors).toBeGreaterThan(pageErrors);
+      expect(warnings).toBeGreaterThan(errors);
+    });
+
+    it('prints timestamps, locations and page error stacks', () => {
+      expect(output).toContain('         [+1.2s] Failed to load resource (http://localhost:3000/app.js:10:5)');
+      expect(output).toContain('         [+200ms] Deprecated API');
+      expect(output).toContain('         [+1.5s] TypeError: foo is not a function\n           at bar (http://localhost:3000/app.js:3:7)');
+    });
+
+    it('still renders the legacy text format', () => {
+      const legacy = runReporter([
+        { filePath: FILE, title: 'broken', status: 'failed', consoleErrors: '[console.error] boom' },
+      ]);
+      expect(legacy).toContain('       [console.error] boom');
+    });
+  });
+
+  describe('structured network entries', () => {
+    let output: string;
+
+    beforeAll(() => {
+      output = stripAnsi(runReporter([
+        {
+          filePath: FILE,
+          title: 'broken test',
+          status: 'failed',
+          networkEntries: [
+            {
+              method: 'GET',
+              url: 'https://api.example.com/session',
+              status: 404,
+              resourceType: 'fetch',
+              duration: 120,
+              time: 300,
+              responseHeaders: { 'x-request-id': 'abc-123' },
+              body: '{\n  "error": "not found"\n}',
+            },
+            {
+              method: 'POST',
+              url: 'https://api.example.com/events',
+              failure: 'net::ERR_CONNECTION_REFUSED',
+              resourceType: 'xhr',
+              time: 450,
+            },
+          ],
+        },
+      ]));
+    });
+
+    it('renders an aligned table', () => {
+      expect(output).toContain('       Status  Method  Type    Time  URL\n');
+      expect(output).toContain('       404     GET     fetch  120ms  https://api.example.com/session\n');
+      expect(output).toContain('       failed  POST    xhr        -  https://api.example.com/events — net::ERR_CONNECTION_REFUSED\n');
+    });
+
+    it('prints selected headers and the collapsed response body under the row', () => {
+      expect(output).toContain('               x-request-id: abc-123\n');
+      expect(output).toContain('               body: { "error": "not found" }\n');
+    });
+
+    it('still renders the legacy text format', () => {
+      const legacy = stripAnsi(runReporter([
+        { filePath: FILE, title: 'broken', status: 'failed', networkFailures: '[404] GET https://api.example.com/data' },
+      ]));
+      expect(legacy).toContain('       [404] GET https://api.example.com/data');
+    });
+  });
+
+  describe('ignored entries', () => {
+    it('reports how many entries the fixtures ignored', () => {
+      const output = stripAnsi(runReporter([
+        { filePath: FILE, title: 'broken test', status: 'failed', suppressed: { console: 3, network: 1 } },
+      ]));
+      expect(output).toContain('     (Ignored)\n       3 console entries, 1 network entry matched an ignore pattern\n');
+    });
+
+    it('omits the section when nothing was ignored', () => {
+      const output = stripAnsi(runReporter([{ filePath: FILE, title: 'broken test', status: 'failed' }]));
+      expect(output).not.toContain('(Ignored)');
+    });
+  });
+
+  describe('strict mode failures', () => {
+    it('labels failures raised by the fixture strict modes', () => {
+      const output = stripAnsi(runReporter([
+        { filePath: FILE, title: 'noisy test', status: 'failed', strict: { console: 2, network: 1 } },
+      ]));
+      expect(output).toContain(
+        'noisy test\n     (Strict Mode) failOnConsoleError, failOnNetworkFailure\n',
+      );
+    });
+
+    it('names only the mode that failed the test', () => {
+      const output = stripAnsi(runReporter([
+        { filePath: FILE, title: 'noisy test', status: 'failed', strict: { console: 0, network: 3 } },
+      ]));
+      expect(output).toContain('     (Strict Mode) failOnNetworkFailure\n');
+    });
+
+    it('does not label ordinary failures', () => {
+      const output = stripAnsi(runReporter([{ filePath: FILE, title: 'broken test', status: 'failed' }]));
+      expect(output).not.toContain('(Strict Mode)');
+    });
+  });
+
+  describe('entries from several pages', () => {
+    let output: string;
+
+    beforeAll(() => {
+      output = stripAnsi(runReporter([
+        {
+          filePath: FILE,
+          title: 'broken test',
+          status: 'failed',
+          consoleEntries: [
+            { type: 'console', level: 'error', text: 'main page error', page: 'page 1', time: 100 },
+            { type: 'pageerror', level: 'error', text: 'TypeError: popup broke', page: 'page 2', time: 200 },
+          ],
+          networkEntries: [
+            { page: 'page 2', method: 'GET', url: 'https://popup.example.com/', status: 500, resourceType: 'document', duration: 40, time: 150 },
+            { page: 'service worker https://app.example.com/sw.js', method: 'GET', url: 'https://cdn.example.com/app.js', failure: 'net::ERR_FAILED', resourceType: 'fetch', time: 160 },
+          ],
+        },
+      ]));
+    });
+
+    it('groups console entries per page', () => {
+      expect(output).toContain(
+        '     (Console Issues)\n' +
+        '       page 1:\n' +
+        '         console.error:\n' +
+        '           [+100ms] main page error\n' +
+        '       page 2:\n' +
+        '         Page errors:\n' +
+        '           [+200ms] TypeError: popup broke\n',
+      );
+    });
+
+    it('prints one network table per page or worker', () => {
+      expect(output).toContain('       page 2:\n         Status  Method  Type      Time  URL\n');
+      expect(output).toContain('       service worker https://app.example.com/sw.js:\n');
+    });
+
+    it('keeps the single-page layout when all entries share a page', () => {
+      const single = stripAnsi(runReporter([
+        {
+          filePath: FILE,
+          title: 'broken test',
+          status: 'failed',
+          consoleEntries: [{ type: 'console', level: 'error', text: 'oops', page: 'page 1', time: 5 }],
+        },
+      ]));
+      expect(single).toContain('     (Console Issues)\n       console.error:\n');
+      expect(single).not.toContain('page 1:');
+    });
+  });
+
+  describe('project matrix', () => {
+    const specs: SpecInput[] = [
+      { filePath: FILE, title: 'logs in', project: 'chromium', status: 'passed' },
+      { filePath: FILE, title: 'logs in', project: 'webkit', status: 'failed' },
+      { filePath: FILE, title: 'logs out', project: 'chromium', status: 'passed', outcome: 'flaky' },
+      { filePath: FILE, title: 'logs out', project: 'webkit', status: 'skipped' },
+      { filePath: FILE, title: 'shows profile', project: 'chromium', status: 'passed' },
+      { filePath: FILE, title: 'shows profile', project: 'webkit', status: 'passed' },
+    ];
+
+    it('marks each failing or flaky test per project', () => {
+      const output = stripAnsi(runReporter(specs, { projectMatrix: true }));
+      const matrix = output.slice(output.indexOf('(Project Matrix)'));
+      expect(matrix).toMatch(/Test\s+chromium  webkit\n/);
+      expect(matrix).toMatch(/\/project\/tests\/login\.spec\.ts > Suite > logs in\s+✔         ✖/);
+      expect(matrix).toMatch(/\/project\/tests\/login\.spec\.ts > Suite > logs out\s+~         -/);
+      expect(matrix).not.toContain('shows profile');
+    });
+
+    it('adds a boxed totals table with a row per project', () => {
+      const output = stripAnsi(runReporter(specs, { projectMatrix: true }));
+      const table = output.slice(output.indexOf('Some specs failed'), output.indexOf('(Project Matrix)'));
+      expect(table).toMatch(/\n {7}Project\s+Duration\s+Total\s+Passed\s+Failed\s+Flaky\s+Pending\s+Skipped\n  ┌─+┐\n/);
+      expect(table).toMatch(/│ ✔  chromium\s+00:01\s+3\s+3\s+0\s+1\s+0\s+0\s+│\n  ├─+┤\n/);
+      expect(table).toMatch(/│ ✖  webkit\s+00:01\s+3\s+1\s+1\s+0\s+0\s+1\s+│\n  └─+┘\n/);
+    });
+
+    it('is off by default', () => {
+      const output = stripAnsi(runReporter(specs));
+      expect(output).not.toContain('(Project Matrix)');
+    });
+  });
+
+  describe('failure clusters', () => {
+    const specs: SpecInput[] = [
+      { filePath: FILE, title: 'logs in', status: 'failed' },
+      { filePath: '/project/tests/cart.spec.ts', title: 'adds an item', status: 'failed' },
+      { filePath: FILE, title: 'logs out', status: 'passed' },
+    ];
+
+    it('groups failures sharing an error across specs', () => {
+      const output = stripAnsi(runReporter(specs));
+      expect(output).toContain(
+        '  (Failure Clusters)\n\n' +
+        '  1) 2 failures\n' +
+        '     Expected true to be false\n' +
+        '       chromium > /project/tests/login.spec.ts > Suite > logs in\n' +
+        '       chromium > /project/tests/cart.spec.ts > Suite > adds an item\n',
+      );
+    });
+
+    it('skips the section when every failure is different', () => {
+      const output = stripAnsi(runReporter(specs.slice(0, 1)));
+      expect(output).not.toContain('(Failure Clusters)');
+    });
+
+    it('can be turned off', () => {
+      const output = stripAnsi(runReporter(specs, { failureClusters: false }));
+      expect(output).not.toContain('(Failure Clusters)');
+    });
+
+    it('is left out in quiet mode', () => {
+      const output = stripAnsi(runReporter(specs, { verbosity: 'quiet' }));
+      expect(output).not.toContain('(Failure Clusters)');
+    });
+  });
+
+  describe('verbosity', () => {
+    const specs: SpecInput[] = [
+      { filePath: FILE, title: 'logs in', status: 'passed', annotations: [{ type: 'issue' }], screenshotPath: '/tmp/login.png' },
+      { filePath: FILE, title: 'logs out', status: 'failed' },
+      { filePath: '/project/tests/cart.spec.ts', title: 'adds an item', status: 'passed' },
+    ];
+
+    it('quiet prints only failures and the final table', () => {
+      const output = stripAnsi(runReporter(specs, { verbosity: 'quiet' }));
+      expect(output).not.toContain('(Run Starting)');
+      expect(output).not.toContain('(Results)');
+      expect(output).not.toContain('Running:');
+      expect(output).not.toContain('✔ logs in');
+      expect(output).not.toContain('(Screenshots)');
+      expect(output).toContain('  1) chromium > /project/tests/login.spec.ts > Suite > logs out\n');
+      expect(output).toContain('(Run Finished)');
+      expect(output).toMatch(/✔  cart\.spec\.ts/);
+    });
+
+    it('quiet suppresses streamed test lines', () => {
+      const output = stripAnsi(runReporter(specs, { verbosity: 'quiet', streaming: true }));
+      expect(output).not.toContain('Running:');
+      expect(output).not.toContain('✔ logs in');
+      expect(output).toContain('logs out\n     Expected true to be false');
+    });
+
+    it('verbose lists annotations and attachments of passing tests', () => {
+      const output = stripAnsi(runReporter(specs, { verbosity: 'verbose' }));
+      expect(output).toContain('✔ logs in (500ms)\n        @issue\n        attachment screenshot: ');
+      expect(output).toContain('Workers: 1');
+      expect(output).not.toMatch(/logs out \(500ms\)\n        attachment/);
+    });
+
+    it('normal prints neither', () => {
+      const output = stripAnsi(runReporter(specs));
+      expect(output).toContain('(Run Starting)');
+      expect(output).not.toContain('@issue');
+      expect(output).not.toContain('Workers:');
+    });
+
+    it('rejects unknown levels', () => {
+      const output = stripAnsi(runReporter(specs, { verbosity: 'loud' as any }));
+      expect(output).toContain('Option "verbosity" must be "quiet", "normal" or "verbose", received "loud"');
+    });
+  });
+
+  describe('tags and annotations', () => {
+    it('prints tags after the test title', () => {
+      const output = stripAnsi(runReporter([{ filePath: FILE, title: 'logs in', tags: ['@smoke', '@auth'] }]));
+      expect(output).toContain('    ✔ logs in @smoke @auth (500ms)\n');
+    });
+
+    it('does not repeat tags written in the title', () => {
+      const output = stripAnsi(runReporter([
+        { filePath: FILE, title: 'logs in @smoke', tags: ['@smoke', '@auth'] },
+      ]));
+      expect(output).toContain('    ✔ logs in @smoke @auth (500ms)\n');
+    });
+
+    it('lists annotations and the skip reason under failed and skipped tests', () => {
+      const output = stripAnsi(runReporter([
+        { filePath: FILE, title: 'logs out', status: 'failed', annotations: [{ type: 'issue', description: 'JIRA-123' }] },
+        { filePath: FILE, title: 'pays', status: 'skipped', annotations: [{ type: 'skip', description: 'Payments are down in staging' }] },
+        { filePath: FILE, title: 'refunds', status: 'skipped', annotations: [{ type: 'skip' }] },
+      ]));
+      expect(output).toContain('    ✖ logs out (500ms)\n        @issue: JIRA-123\n');
+      expect(output).toContain('    - pays (skipped)\n        @skip: Payments are down in staging\n');
+      expect(output).toContain('    - refunds (skipped)\n\n');
+    });
+
+    it('does not list annotations under passing tests', () => {
+      const output = stripAnsi(runReporter([
+        { filePath: FILE, title: 'logs in', annotations: [{ type: 'issue', description: 'JIRA-123' }] },
+      ]));
+      expect(output).not.toContain('@issue');
+    });
+
+    it('links annotation descriptions through a template', () => {
+      const output = stripAnsi(runReporter(
+        [
+          {
+            filePath: FILE,
+            title: 'logs out',
+            status: 'failed',
+            annotations: [
+              { type: 'issue', description: 'JIRA 123' },
+              { type: 'docs', description: 'https://docs.example.com/logout' },
+            ],
+          },
+        ],
+        { annotationLinks: { issue: 'https://jira.example.com/browse/{description}', docs: 'unused/{description}' } },
+      ));
+      expect(output).toContain('        @issue: https://jira.example.com/browse/JIRA%20123\n');
+      expect(output).toContain('        @docs: https://docs.example.com/logout\n');
+    });
+  });
+
+  describe('CI integration', () => {
+    const specs: SpecInput[] = [
+      { filePath: FILE, title: 'logs in', status: 'passed' },
+      { filePath: FILE, title: 'logs out', status: 'failed' },
+    ];
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-ci-'));
+    });
+
+    afterEach(() => {
+      delete process.env.GITHUB_STEP_SUMMARY;
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('wraps spec blocks in GitHub groups and annotates failures', () => {
+      const output = stripAnsi(runReporter(specs, { ci: 'github' }));
+      expect(output).toContain('::group::Running:  login.spec.ts (1 of 1)\n');
+      expect(output.indexOf('::group::')).toBeLessThan(output.indexOf('(Results)'));
+      expect(output.indexOf('::endgroup::')).toBeGreaterThan(output.indexOf('(Failures)'));
+      expect(output).toContain(
+        '::error file=test.spec.ts,line=10,col=5,title=chromium > /project/tests/login.spec.ts > Suite > logs out::Expected true to be false\n',
+      );
+    });
+
+    it('appends a Markdown summary to the GitHub step summary', () => {
+      const summaryFile = path.join(dir, 'summary.md');
+      fs.writeFileSync(summaryFile, '# Earlier step\n');
+      process.env.GITHUB_STEP_SUMMARY = summaryFile;
+      runReporter(specs, { ci: 'github' });
+      const summary = fs.readFileSync(summaryFile, 'utf-8');
+      expect(summary).toContain('# Earlier step\n### ✖ Playwright: FAILED\n');
+      const specPath = path.relative(process.cwd(), '/project/tests/login.spec.ts');
+      expect(summary).toContain(`| ✖ | \`${specPath}\` | 00:01 | 2 | 1 | 1 | 0 | 0 | 0 |\n`);
+      expect(summary).toContain('<summary><b>chromium › /project/tests/login.spec.ts › Suite › logs out</b> — Expected true to be false</summary>\n');
+    });
+
+    it('keeps the GitHub step summary under its byte limit', () => {
+      const summaryFile = path.join(dir, 'summary.md');
+      process.env.GITHUB_STEP_SUMMARY = summaryFile;
+      const wide = Array.from({ length: 300 }, (_, index) => ({
+        filePath: FILE,
+        title: `${index} ${'✖'.repeat(1500)}`,
+        status: 'failed' as const,
+      }));
+      runReporter(wide, { ci: 'github' });
+      const summary = fs.readFileSync(summaryFile);
+      expect(summary.length).toBeGreaterThan(GITHUB_STEP_SUMMARY_LIMIT / 2);
+      expect(summary.length).toBeLessThanOrEqual(GITHUB_STEP_SUMMARY_LIMIT);
+    });
+
+    it('uses collapsible sections on GitLab', () => {
+      const output = runReporter(specs, { ci: 'gitlab' });
+      expect(output).toMatch(/\u001b\[0Ksection_start:\d+:spec_1\r\u001b\[0KRunning: {2}login\.spec\.ts \(1 of 1\)\n/);
+      expect(output).toMatch(/\u001b\[0Ksection_end:\d+:spec_1\r\u001b\[0K\n/);
+      expect(output).not.toContain('::error');
+    });
+
+    it('writes a GitLab Code Quality report', () => {
+      runReporter(specs, { ci: 'gitlab', codeQualityOutputFile: 'gl-code-quality.json', configDir: dir });
+      const issues = JSON.parse(fs.readFileSync(path.join(dir, 'gl-code-quality.json'), 'utf-8'));
+      expect(issues).toEqual([
+        expect.objectContaining({
+          description: 'chromium > /project/tests/login.spec.ts > Suite > logs out: Expected true to be false',
+          severity: 'major',
+          location: { path: 'test.spec.ts', lines: { begin: 10 } },
+        }),
+      ]);
+      expect(issues[0].fingerprint).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('prints nothing extra when turned off', () => {
+      const output = runReporter(specs, { ci: 'off' });
+      expect(output).not.toContain('::group::');
+      expect(output).not.toContain('section_start');
+    });
+  });
+
+  describe('HTML report', () => {
+    let dir: string;
+    let html: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-html-'));
+      const screenshot = path.join(dir, 'results', 'shot.png');
+      fs.mkdirSync(path.dirname(screenshot), { recursive: true });
+      fs.writeFileSync(screenshot, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+      runReporter(
+        [
+          { filePath: FILE, title: 'logs in', status: 'passed' },
+          {
+            filePath: FILE,
+            title: 'shows <errors>',
+            status: 'failed',
+            networkFailures: '[404] GET https://api.example.com/session',
+            screenshotPath: screenshot,
+            videoPath: path.join(dir, 'results', 'video.webm'),
+          },
+          { filePath: '/project/tests/cart.spec.ts', title: 'adds an item @cart', status: 'passed', tags: ['@cart'] },
+        ],
+        { htmlOutputFile: 'report/index.html', configDir: dir },
+      );
+      html = fs.readFileSync(path.join(dir, 'report', 'index.html'), 'utf-8');
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes a standalone page with the run banner and summary table', () => {
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<h1 class="fail">✖ Playwright: FAILED</h1>');
+      expect(html).toContain('<td>Some specs failed</td>');
+      expect(html).not.toMatch(/<link|<script/);
+    });
+
+    it('renders one collapsible block per spec, failing specs open', () => {
+      expect(html).toMatch(/<details class="spec" open>\n<summary class="fail">✖ [^<]*login\.spec\.ts — 1\/2 passed/);
+      expect(html).toMatch(/<details class="spec">\n<summary class="pass">✔ [^<]*cart\.spec\.ts/);
+    });
+
+    it('lists tags written in the title once', () => {
+      expect(html).toContain('✔ adds an item @cart (500ms)');
+      expect(html).not.toContain('@cart @cart');
+    });
+
+    it('escapes failure details', () => {
+      expect(html).toContain('chromium › /project/tests/login.spec.ts › Suite › shows &lt;errors&gt;');
+      expect(html).toContain('<pre>Expected true to be false</pre>');
+      expect(html).toContain('<pre>[404] GET https://api.example.com/session</pre>');
+    });
+
+    it('embeds screenshots and links videos relative to the file', () => {
+      expect(html).toContain('<a href="../results/shot.png"><img class="thumb" src="data:image/png;base64,iVBORw=="');
+      expect(html).toContain('<a href="../results/video.webm">../results/video.webm</a>');
+    });
+  });
+
+  describe('Markdown summary', () => {
+    let dir: string;
+
+    const failing = (count: number): SpecInput[] =>
+      Array.from({ length: count }, (_, index) => ({ filePath: FILE, title: `broken ${index + 1}`, status: 'failed' as const }));
+
+    const readSummary = (specs: SpecInput[], options: ReporterOptions = {}) => {
+      runReporter(specs, { markdownOutputFile: 'summary.md', configDir: dir, ...options });
+      return fs.readFileSync(path.join(dir, 'summary.md'), 'utf-8');
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-markdown-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes the counts, spec table and a collapsible block per failure', () => {
+      const markdown = readSummary([
+        { filePath: FILE, title: 'logs in', status: 'passed', outcome: 'flaky' },
+        { filePath: FILE, title: 'pays', status: 'skipped' },
+        ...failing(1),
+      ]);
+      expect(markdown).toContain('**1 passed**, 1 failed, 1 flaky, 0 pending, 1 skipped in 00:00\n');
+      expect(markdown).toContain('| ✖ | **Total** | 00:00 | 3 | 1 | 1 | 1 | 0 | 1 |\n');
+      expect(markdown).toContain(
+        '<details>\n<summary><b>chromium › /project/tests/login.spec.ts › Suite › broken 1</b> — Expected true to be false</summary>\n\n' +
+        '```\nExpected true to be false\n\nat Object.<anonymous> (test.spec.ts:10:5)\n```\n\n</details>\n',
+      );
+    });
+
+    it('leaves out failures that do not fit and says so', () => {
+      const markdown = readSummary(failing(50), { markdownMaxLength: 3000 });
+      expect(markdown.length).toBeLessThanOrEqual(3000);
+      expect(markdown).toContain('#### Failures (50)');
+      expect(markdown).toMatch(/_\d+ more failures not shown to stay under 3000 characters\._\n$/);
+      expect(markdown).toContain('broken 1</b>');
+    });
+
+    it('never exceeds a very small limit', () => {
+      const markdown = readSummary(failing(3), { markdownMaxLength: 100 });
+      expect(markdown.length).toBeLessThanOrEqual(100);
+    });
+  });
+
+  describe('Custom renderers', () => {
+    const specs: SpecInput[] = [
+      { filePath: FILE, title: 'logs in', status: 'passed', tags: ['@smoke'] },
+      { filePath: FILE, title: 'shows errors', status: 'failed' },
+    ];
+
+    it('receives the collected run alongside the console output', () => {
+      const events: string[] = [];
+      const digest: Renderer = {
+        onBegin: (run) => events.push(`begin ${run.specs.length} spec, ${run.totals.tests} tests`),
+        onSpecBegin: (spec) => events.push(`spec ${spec.fileName}`),
+        onTestEnd: (test) => events.push(`test ${test.title} ${test.outcome} ${test.tags.join(' ')}`.trim()),
+        onSpecEnd: (spec) => events.push(`spec end ${spec.passing}/${spec.total}`),
+        onEnd: (run) => {
+          events.push(`end ${run.status} ${run.totals.failed} failed, ${run.failures[0].titlePath.at(-1)}`);
+        },
+      };
+
+      const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      let output: string;
+      try {
+        output = runReporter(specs, { renderers: [digest] });
+        expect(stderr).not.toHaveBeenCalled();
+      } finally {
+        stderr.mockRestore();
+      }
+
+      expect(events).toEqual([
+        'begin 1 spec, 2 tests',
+        'spec login.spec.ts',
+        'test logs in passed @smoke',
+        'test shows errors failed',
+        'spec end 1/2',
+        'end failed 1 failed, shows errors',
+      ]);
+      expect(stripAnsi(output)).toContain('✔ logs in @smoke (500ms)');
+    });
+
+    it('waits for a renderer that returns a promise', async () => {
+      let sent = false;
+      const reporter = new JenkinsReporter({
+        renderers: [{ onEnd: () => new Promise<void>((resolve) => setTimeout(() => { sent = true; resolve(); }, 10)) }],
+      }) as any;
+      reporter.consoleRenderer.write = () => undefined;
+      reporter.onBegin(makeConfig(), makeSuite(specs));
+
+      await reporter.onEnd({ status: 'passed' });
+      expect(sent).toBe(true);
+    });
+
+    it('waits for a thenable without catch', async () => {
+      let sent = false;
+      const thenable = { then: (resolve: () => void) => setTimeout(() => { sent = true; resolve(); }, 10) };
+      const reporter = new JenkinsReporter({ renderers: [{ onEnd: () => thenable as any }] }) as any;
+      reporter.consoleRenderer.write = () => undefined;
+      const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      try {
+        reporter.onBegin(makeConfig(), makeSuite(specs));
+        await reporter.onEnd({ status: 'passed' });
+        expect(sent).toBe(true);
+        expect(stderr).not.toHaveBeenCalled();
+      } finally {
+        stderr.mockRestore();
+      }
+    });
+
+    it('reports a failing renderer on stderr and keeps printing', async () => {
+      const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      try {
+        const output: string[] = [];
+        const reporter = new JenkinsReporter({
+          renderers: [
+            { onBegin: () => { throw new Error('no webhook configured'); } },
+            { onEnd: () => Promise.reject(new Error('Slack is down')) },
+          ],
+        }) as any;
+        reporter.consoleRenderer.write = (msg: string) => output.push(msg);
+        reporter.onBegin(makeConfig(), makeSuite(specs));
+        await reporter.onEnd({ status: 'passed' });
+
+        expect(output.join('')).toContain('(Run Finished)');
+        expect(stderr).toHaveBeenCalledWith('playwright-terminal-reporter: a renderer failed: no webhook configured\n');
+        expect(stderr).toHaveBeenCalledWith('playwright-terminal-reporter: a renderer failed: Slack is down\n');
+      } finally {
+        stderr.mockRestore();
+      }
+    });
+
+    it('rejects renderers that are not objects', () => {
+      const output = runReporter(specs, { renderers: ['slack'] as any });
+      expect(stripAnsi(output)).toContain('Option "renderers" entry 0 must be an object, received "slack"');
+    });
+  });
+
+  describe('Themes', () => {
+    const specs: SpecInput[] = [
+      { filePath: FILE, title: 'logs in', status: 'passed' },
+      { filePath: FILE, title: 'retried', status: 'passed', outcome: 'flaky' },
+      { filePath: FILE, title: 'later', status: 'skipped' },
+      { filePath: FILE, title: 'todo', status: 'skipped', annotations: [{ type: 'fixme' }] },
+      { filePath: FILE, title: 'broken', status: 'failed' },
+    ];
+
+    it('colours flaky, skipped and pending tests apart from passes', () => {
+      const output = runReporter(specs);
+      expect(output).toContain(GREEN + '    ✔ logs in');
+      expect(output).toContain(YELLOW + '    ~ retried');
+      expect(output).toContain(DIM + '    - later (skipped)');
+      expect(output).toContain(CYAN + '    - todo (fixme)');
+      expect(output).toContain(RED + '    ✖ broken');
+    });
+
+    it('bolds headings and dims stack frames', () => {
+      const output = runReporter(specs);
+      expect(output).toContain(`  ${BOLD}(Run Starting)${RESET}`);
+      expect(output).toContain(`  ${BOLD}(Failures)${RESET}`);
+      expect(output).toContain(`${DIM}    at Object.<anonymous> (test.spec.ts:10:5)${RESET}`);
+    });
+
+    it('applies the theme option at the configured colour depth', () => {
+      const output = runReporter(specs, { color: 'truecolor', theme: { flaky: '#ff8800 bold', heading: '' } });
+      expect(output).toContain('\u001b[38;2;255;136;0;1m    ~ retried');
+      expect(output).toContain('\n  (Run Starting)\n');
+      expect(stripAnsi(output)).toContain('    ~ retried');
+    });
+
+    it('reports invalid theme styles', () => {
+      const output = runReporter(specs, { theme: { flaky: 'sparkly' } });
+      expect(stripAnsi(output)).toContain(
+        'Option "theme" must be an object mapping pass, fail, flaky, pending, skipped, heading, stack, path to styles',
+      );
+    });
+  });
+
+  describe('Page fixture strict modes', () => {
+    it('fails a passing test that logged a console error', async () => {
+      const testInfo = makeTestInfo('passed');
+      await expect(
+        runPageFixture(testInfo, { failOnConsoleError: true }, (_context, page) => {
+          page.emit('console', makeConsoleMessage('boom'));
+          page.emit('console', makeConsoleMessage('careful', 'warning'));
+        }),
+      ).rejects.toThrow('The page reported 1 console error during the test:\n  console.error: boom');
+      expect(testInfo.attachments['report-strict']).toEqual({ console: 1, network: 0 });
+      expect(testInfo.attachments['console-errors']).toMatchObject([
+        { type: 'console', level: 'error', text: 'boom' },
+        { type: 'console', level: 'warning', text: 'careful' },
+      ]);
+    });
+
+    it('fails on console errors that consoleReportLevels leaves out', async () => {
+      const testInfo = makeTestInfo('passed');
+      await expect(
+        runPageFixture(testInfo, { failOnConsoleError: true, consoleReportLevels: ['warning'] }, (_context, page) => {
+          page.emit('console', makeConsoleMessage('boom'));
+          page.emit('console', makeConsoleMessage('careful', 'warning'));
+        }),
+      ).rejects.toThrow('The page reported 1 console error during the test:\n  console.error: boom');
+      expect(testInfo.attachments['console-errors']).toMatchObject([{ level: 'warning', text: 'careful' }]);
+    });
+
+    it('fails a passing test that saw a network failure', async () => {
+      const testInfo = makeTestInfo('passed');
+      await expect(
+        runPageFixture(testInfo, { failOnNetworkFailure: true }, (context) => {
+          context.emit('requestfailed', makeRequest('https://cdn.example.com/a.js', { failure: 'net::ERR_FAILED' }));
+          context.emit('response', makeResponse('https://api.example.com/data', { status: 404 }));
+        }),
+      ).rejects.toThrow(
+        'The page reported 2 network failures during the test:\n' +
+          '  [net::ERR_FAILED] GET https://cdn.example.com/a.js\n' +
+          '  [404] GET https://api.example.com/data',
+      );
+      expect(testInfo.attachments['report-strict']).toEqual({ console: 0, network: 2 });
+    });
+
+    it('leaves a test.fail() test alone', async () => {
+      const testInfo = makeTestInfo('failed', 'failed');
+      await runPageFixture(testInfo, { failOnConsoleError: true }, (_context, page) => {
+        page.emit('console', makeConsoleMessage('boom'));
+      });
+      expect(testInfo.attachments).toEqual({});
+    });
+
+    it('keeps the error of a test that really failed', async () => {
+      const testInfo = makeTestInfo('failed');
+      await runPageFixture(testInfo, { failOnConsoleError: true }, (_context, page) => {
+        page.emit('console', makeConsoleMessage('boom'));
+      });
+      expect(testInfo.attachments['report-strict']).toBeUndefined();
+      expect(testInfo.attachments['console-errors']).toMatchObject([{ text: 'boom' }]);
+    });
+
+    it('does nothing to a passing test without the strict options', async () => {
+      const testInfo = makeTestInfo('passed');
+      await runPageFixture(testInfo, {}, (_context, page) => {
+        page.emit('console', makeConsoleMessage('boom'));
+      });
+      expect(testInfo.attachments).toEqual({});
+    });
+  });
+
+  describe('Page fixture ignore filters', () => {
+    it('ignores every matching console entry, including with a global RegExp', async () => {
+      const testInfo = makeTestInfo('failed');
+      await runPageFixture(testInfo, { consoleReportIgnore: [/analytics/g, 'favicon'] }, (_context, page) => {
+        page.emit('console', makeConsoleMessage('analytics blocked'));
+        page.emit('console', makeConsoleMessage('analytics blocked again'));
+        page.emit('console', makeConsoleMessage('analytics still blocked'));
+        page.emit('console', makeConsoleMessage('favicon.ico not found'));
+        page.emit('console', makeConsoleMessage('real problem'));
+      });
+      expect(testInfo.attachments['console-errors']).toMatchObject([{ text: 'real problem' }]);
+      expect(testInfo.attachments['report-suppressed']).toEqual({ console: 4, network: 0 });
+    });
+
+    it('ignores network failures by URL and status without reading their bodies', async () => {
+      const testInfo = makeTestInfo('failed');
+      const tracked = makeResponse('https://api.example.com/track', { status: 500, body: 'down' });
+      const missing = makeResponse('https://api.example.com/optional', { status: 404, body: 'nope' });
+      const broken = makeResponse('https://api.example.com/data', { status: 500, body: '{"error":"boom"}' });
+      await runPageFixture(
+        testInfo,
+        { networkReportIgnoreUrls: [/track/g], networkReportIgnoreStatuses: [404] },
+        (context) => {
+          context.emit('response', tracked);
+          context.emit('response', missing);
+          context.emit('response', broken);
+          context.emit('requestfailed', makeRequest('https://cdn.example.com/track.js', { failure: 'net::ERR_FAILED' }));
+        },
+      );
+      expect(testInfo.attachments['network-failures']).toMatchObject([
+        { url: 'https://api.example.com/data', status: 500, body: '{"error":"boom"}' },
+      ]);
+      expect(testInfo.attachments['report-suppressed']).toEqual({ console: 0, network: 3 });
+      expect(tracked.readBody).not.toHaveBeenCalled();
+      expect(missing.readBody).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Page fixture network capture', () => {
+    it('only waits for responses with an error status', async () => {
+      const testInfo = makeTestInfo('failed');
+      const ok = makeResponse('https://api.example.com/ok', { status: 200 });
+      const broken = makeResponse('https://api.example.com/data', { status: 503 });
+      await runPageFixture(testInfo, {}, (context) => {
+        context.emit('response', ok);
+        context.emit('response', broken);
+      });
+      expect(ok.finished).not.toHaveBeenCalled();
+      expect(broken.finished).toHaveBeenCalled();
+      expect(testInfo.attachments['network-failures']).toMatchObject([
+        { url: 'https://api.example.com/data', status: 503, duration: 12 },
+      ]);
+    });
+
+    it('does not wait for error responses when the test passed', async () => {
+      const testInfo = makeTestInfo('passed');
+      const stalled = makeResponse('https://api.example.com/stream', { status: 500, streaming: true });
+      await runPageFixture(testInfo, {}, (context) => {
+        context.emit('response', stalled);
+      });
+      expect(testInfo.attachments).toEqual({});
+    });
+
+    it('stops waiting for a response that never finishes', async () => {
+      jest.useFakeTimers();
+      try {
+        const testInfo = makeTestInfo('failed');
+        const stalled = makeResponse('https://api.example.com/stream', { status: 500, streaming: true });
+        const run = runPageFixture(testInfo, {}, (context) => {
+          context.emit('response', stalled);
+        });
+        await jest.advanceTimersByTimeAsync(2000);
+        await run;
+        expect(stalled.readBody).not.toHaveBeenCalled();
+        expect(testInfo.attachments['network-failures']).toMatchObject([
+          { url: 'https://api.example.com/stream', status: 500 },
+        ]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('records failed requests and the configured headers in lower case', async () => {
+      const testInfo = makeTestInfo('failed');
+      await runPageFixture(
+        testInfo,
+        { networkReportHeaders: ['X-Request-Id', 'content-type'] },
+        (context) => {
+          context.emit(
+            'response',
+            makeResponse('https://api.example.com/data', {
+              method: 'POST',
+              status: 500,
+              headers: { 'x-request-id': 'abc-123', cookie: 'secret' },
+              responseHeaders: { 'content-type': 'text/plain', 'x-request-id': 'abc-123', server: 'nginx' },
+            }),
+          );
+          context.emit('requestfailed', makeRequest('https://cdn.example.com/a.js', { failure: 'net::ERR_FAILED' }));
+        },
+      );
+      const [response, failed] = testInfo.attachments['network-failures'] as Array<Record<string, unknown>>;
+      expect(response).toMatchObject({
+        method: 'POST',
+        url: 'https://api.example.com/data',
+        resourceType: 'fetch',
+        status: 500,
+        requestHeaders: { 'x-request-id': 'abc-123' },
+        responseHeaders: { 'content-type': 'text/plain', 'x-request-id': 'abc-123' },
+      });
+      expect(failed).toMatchObject({ url: 'https://cdn.example.com/a.js', failure: 'net::ERR_FAILED' });
+      expect(failed.requestHeaders).toBeUndefined();
+    });
+
+    it('records text bodies up to the limit', async () => {
+      const testInfo = makeTestInfo('failed');
+      const image = makeResponse('https://cdn.example.com/logo.png', {
+        status: 404,
+        body: 'binary',
+        responseHeaders: { 'content-type': 'image/png' },
+      });
+      await runPageFixture(testInfo, { networkReportBodyLimit: 10 }, (context) => {
+        context.emit('response', makeResponse('https://api.example.com/a', { status: 500, body: '{"error":"database unavailable"}' }));
+        context.emit('response', makeResponse('https://api.example.com/b', { status: 400, body: 'bad input' }));
+        context.emit('response', image);
+      });
+      const entries = testInfo.attachments['network-failures'] as Array<Record<string, unknown>>;
+      expect(entries.map((entry) => entry.body)).toEqual(['{"error":"… (32 chars)', 'bad input', undefined]);
+      expect(image.readBody).not.toHaveBeenCalled();
+    });
+
+    it('does not read bodies when the limit is 0', async () => {
+      const testInfo = makeTestInfo('failed');
+      const response = makeResponse('https://api.example.com/a', { status: 500, body: 'down' });
+      await runPageFixture(testInfo, { networkReportBodyLimit: 0 }, (context) => {
+        context.emit('response', response);
+      });
+      expect(response.readBody).not.toHaveBeenCalled();
+      expect(testInfo.attachments['network-failures']).toMatchObject([{ status: 500 }]);
+    });
+  });
+
+  describe('Page fixture console capture', () => {
+    it('records page messages once when the context reports them too', async () => {
+      const testInfo = makeTestInfo('failed');
+      await runPageFixture(testInfo, {}, (context, page) => {
+        const message = makeConsoleMessage('boom', 'error', { page });
+        page.emit('console', message);
+        context.emit('console', message);
+      });
+      expect(testInfo.attachments['console-errors']).toMatchObject([{ text: 'boom', page: 'page 1' }]);
+    });
+
+    it('records one-based locations and only the configured levels', async () => {
+      const testInfo = makeTestInfo('failed');
+      await runPageFixture(testInfo, { consoleReportLevels: ['error', 'info'] }, (_context, page) => {
+        const location = { url: 'http://localhost:3000/app.js', lineNumber: 0, columnNumber: 4 };
+        page.emit('console', makeConsoleMessage('boom', 'error', { page, location }));
+        page.emit('console', makeConsoleMessage('careful', 'warning', { page }));
+        page.emit('console', makeConsoleMessage('hello', 'info', { page }));
+        page.emit('console', makeConsoleMessage('noise', 'debug', { page }));
+      });
+      const entries = testInfo.attachments['console-errors'] as Array<Record<string, unknown>>;
+      expect(entries.map((entry) => entry.text)).toEqual(['boom', 'hello']);
+      expect(entries[0]).toMatchObject({
+        type: 'console',
+        level: 'error',
+        location: 'http://localhost:3000/app.js:1:5',
+      });
+      expect(entries[1].location).toBeUndefined();
+      expect(typeof entries[0].time).toBe('number');
+    });
+
+    it('turns uncaught exceptions into page errors with their stack', async () => {
+      const testInfo = makeTestInfo('failed');
+      const error = new TypeError('foo is not a function');
+      error.stack = 'TypeError: foo is not a function\n    at bar (http://localhost:3000/app.js:3:7)';
+      await runPageFixture(testInfo, { consoleReportLevels: [] }, (_context, page) => {
+        page.emit('pageerror', error);
+      });
+      expect(testInfo.attachments['console-errors']).toEqual([
+        expect.objectContaining({
+          type: 'pageerror',
+          level: 'error',
+          text: 'TypeError: foo is not a function',
+          stack: error.stack,
+        }),
+      ]);
+    });
+
+    it('labels pages, web workers and service workers', async () => {
+      const testInfo = makeTestInfo('failed');
+      await runPageFixture(testInfo, {}, (context, page) => {
+        const popup = makePage(context);
+        context.emit('page', popup);
+        page.emit('console', makeConsoleMessage('from the page', 'error', { page }));
+        context.emit('console', makeConsoleMessage('from a worker', 'error', { page, worker: 'http://localhost/w.js' }));
+        context.emit('console', makeConsoleMessage('from the sw', 'error', { worker: 'http://localhost/sw.js' }));
+        context.emit('response', makeResponse('https://api.example.com/popup', { status: 500, page: popup }));
+        context.emit('response', makeResponse('https://api.example.com/sw', { status: 502, serviceWorker: 'http://localhost/sw.js' }));
+        context.emit('response', makeResponse('https://api.example.com/worker', { status: 503 }));
+      });
+      expect(
+        (testInfo.attachments['console-errors'] as Array<Record<string, unknown>>).map((entry) => entry.page),
+      ).toEqual(['page 1', 'worker http://localhost/w.js', 'service worker http://localhost/sw.js']);
+      expect(
+        (testInfo.attachments['network-failures'] as Array<Record<string, unknown>>).map((entry) => entry.page),
+      ).toEqual(['page 2', 'service worker http://localhost/sw.js', undefined]);
+    });
+
+    it('listens on pages opened during the test', async () => {
+      const testInfo = makeTestInfo('failed');
+      await runPageFixture(testInfo, {}, (context) => {
+        const popup = makePage(context);
+        context.emit('page', popup);
+        popup.emit('console', makeConsoleMessage('popup failed', 'error', { page: popup }));
+        popup.emit('pageerror', new TypeError('token is null'));
+      });
+      expect(testInfo.attachments['console-errors']).toMatchObject([
+        { type: 'console', text: 'popup failed', page: 'page 2' },
+        { type: 'pageerror', text: 'TypeError: token is null', page: 'page 2' },
+      ]);
+    });
+
+    it('stops listening once the test body has run', async () => {
+      const testInfo = makeTestInfo('failed');
+      const emitters: EventEmitter[] = [];
+      const attach = testInfo.attach;
+      // Events that arrive while the report is attached belong to teardown, not the test.
+      testInfo.attach = async (name, options) => {
+        const [context, page, popup] = emitters;
+        context.emit('response', makeResponse('https://api.example.com/teardown', { status: 500 }));
+        page.emit('console', makeConsoleMessage('after the test', 'error', { page }));
+        popup.emit('pageerror', new Error('closing'));
+        await attach(name, options);
+      };
+      await runPageFixture(testInfo, {}, (context, page) => {
+        const popup = makePage(context);
+        context.emit('page', popup);
+        emitters.push(context, page, popup);
+        page.emit('console', makeConsoleMessage('during the test', 'error', { page }));
+        context.emit('response', makeResponse('https://api.example.com/data', { status: 500 }));
+      });
+      expect(testInfo.attachments['console-errors']).toMatchObject([{ text: 'during the test' }]);
+      expect(testInfo.attachments['network-failures']).toMatchObject([{ url: 'https://api.example.com/data' }]);
+      expect(testInfo.attachments['network-failures']).toHaveLength(1);
+      for (const emitter of emitters) {
+        expect(emitter.eventNames()).toEqual([]);
+      }
+    });
+  });
 });
@@ -1,56 +1,79 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import JenkinsReporter from '../src/index';
+import { detectCiProvider, githubErrorCommand } from '../src/ci';
+import { clusterFailures, errorSignature } from '../src/clusters';
+import { buildCodeFrame, parseStackLocation } from '../src/codeframe';
+import { ConsoleRenderer } from '../src/console';
+import {
+  formatClockDuration,
+  formatDuration,
+  formatSecondsText,
+  getFileName,
+  isUserFrame,
+  userFrames,
+} from '../src/format';
+import { analyzeHistory, type HistoryRun } from '../src/history';
+import { escapeHtml } from '../src/html';
+import { escapeXml } from '../src/junit';
+import { getBrowserDisplay } from '../src/model';
+import { resolveOptions, type ReporterOptions } from '../src/options';
+import { buildTheme, detectColorLevel } from '../src/theme';
 
-const r = new JenkinsReporter() as any;
+const renderer = (options: ReporterOptions = {}) =>
+  new ConsoleRenderer(resolveOptions(options).options) as any;
+const r = renderer();
 
 describe('JenkinsReporter — internal helpers', () => {
   describe('formatDuration', () => {
     it('returns ms for values under 1000', () => {
-      expect(r.formatDuration(0)).toBe('0ms');
-      expect(r.formatDuration(999)).toBe('999ms');
+      expect(formatDuration(0)).toBe('0ms');
+      expect(formatDuration(999)).toBe('999ms');
     });
 
     it('returns seconds with one decimal for >= 1000ms', () => {
-      expect(r.formatDuration(1000)).toBe('1.0s');
-      expect(r.formatDuration(2500)).toBe('2.5s');
+      expect(formatDuration(1000)).toBe('1.0s');
+      expect(formatDuration(2500)).toBe('2.5s');
     });
   });
 
   describe('formatClockDuration', () => {
     it('formats zero as 00:00', () => {
-      expect(r.formatClockDuration(0)).toBe('00:00');
+      expect(formatClockDuration(0)).toBe('00:00');
     });
 
     it('formats 90 seconds as 01:30', () => {
-      expect(r.formatClockDuration(90_000)).toBe('01:30');
+      expect(formatClockDuration(90_000)).toBe('01:30');
     });
 
     it('clamps negative values to 00:00', () => {
-      expect(r.formatClockDuration(-1000)).toBe('00:00');
+      expect(formatClockDuration(-1000)).toBe('00:00');
     });
   });
 
   describe('formatSecondsText', () => {
     it('returns "1 second" for 1000ms', () => {
-      expect(r.formatSecondsText(1000)).toBe('1 second');
+      expect(formatSecondsText(1000)).toBe('1 second');
     });
 
     it('returns plural for other values', () => {
-      expect(r.formatSecondsText(3000)).toBe('3 seconds');
-      expect(r.formatSecondsText(0)).toBe('0 seconds');
+      expect(formatSecondsText(3000)).toBe('3 seconds');
+      expect(formatSecondsText(0)).toBe('0 seconds');
     });
   });
 
   describe('getFileName', () => {
     it('returns the filename from a POSIX path', () => {
-      expect(r.getFileName('/home/user/tests/login.spec.ts')).toBe('login.spec.ts');
+      expect(getFileName('/home/user/tests/login.spec.ts')).toBe('login.spec.ts');
     });
 
     it('handles Windows-style backslashes', () => {
-      expect(r.getFileName('C:\\Users\\tests\\login.spec.ts')).toBe('login.spec.ts');
+      expect(getFileName('C:\\Users\\tests\\login.spec.ts')).toBe('login.spec.ts');
     });
 
     it('returns the value as-is when there is no slash', () => {
-      expect(r.getFileName('login.spec.ts')).toBe('login.spec.ts');
+      expect(getFileName('login.spec.ts')).toBe('login.spec.ts');
     });
   });
 
@@ -123,31 +146,38 @@ describe('JenkinsReporter — internal helpers', () => {
     });
   });
 
-  describe('green / red', () => {
-    it('wraps value in green ANSI codes when color is enabled', () => {
-      const reporter = new JenkinsReporter() as any;
+  describe('paint', () => {
+    it('wraps value in the theme colour when color is enabled', () => {
+      const reporter = renderer();
       Object.defineProperty(reporter, 'useColor', { value: true });
-      expect(reporter.green('ok')).toContain('\u001b[32m');
-      expect(reporter.green('ok')).toContain('\u001b[0m');
+      expect(reporter.paint('pass', 'ok')).toContain('\u001b[32m');
+      expect(reporter.paint('pass', 'ok')).toContain('\u001b[0m');
+      expect(reporter.paint('flaky', 'ok')).toBe('\u001b[33mok\u001b[0m');
     });
 
     it('returns value unchanged when color is disabled', () => {
-      const reporter = new JenkinsReporter() as any;
+      const reporter = renderer();
       Object.defineProperty(reporter, 'useColor', { value: false });
-      expect(reporter.green('ok')).toBe('ok');
-      expect(reporter.red('fail')).toBe('fail');
+      expect(reporter.paint('pass', 'ok')).toBe('ok');
+      expect(reporter.paint('fail', 'fail')).toBe('fail');
+    });
+
+    it('uses the theme option', () => {
+      const reporter = renderer({ theme: { pass: 'blue bold' } });
+      Object.defineProperty(reporter, 'useColor', { value: true });
+      expect(reporter.paint('pass', 'ok')).toBe('\u001b[34;1mok\u001b[0m');
     });
   });
 
   describe('getBrowserDisplay', () => {
-    const makeTests = (...projectNames: string[]) =>
+    const makeTests = (...projectNames: string[]): any[] =>
       projectNames.map((name) => ({ titlePath: () => ['', name, 'suite', 'test'] }));
 
     it('returns single browser for a single project', () => {
       const config = {
         projects: [{ use: { browserName: 'chromium', headless: true }, name: 'chromium' }],
       };
-      expect(r.getBrowserDisplay(config, makeTests('chromium'))).toBe('chromium (headless)');
+      expect(getBrowserDisplay(config as any, makeTests('chromium'))).toBe('chromium (headless)');
     });
 
     it('returns all browsers for multiple running projects', () => {
@@ -159,7 +189,7 @@ describe('JenkinsReporter — internal helpers', () => {
         ],
       };
       const tests = makeTests('chromium', 'firefox', 'webkit');
-      expect(r.getBrowserDisplay(config, tests)).toBe('chromium (headless), firefox (headless), webkit (headed)');
+      expect(getBrowserDisplay(config as any, tests)).toBe('chromium (headless), firefox (headless), webkit (headed)');
     });
 
     it('excludes projects that have no running tests', () => {
@@ -170,7 +200,7 @@ describe('JenkinsReporter — internal helpers', () => {
           { use: { browserName: 'webkit', headless: false }, name: 'webkit' },
         ],
       };
-      expect(r.getBrowserDisplay(config, makeTests('chromium'))).toBe('chromium (headless)');
+      expect(getBrowserDisplay(config as any, makeTests('chromium'))).toBe('chromium (headless)');
     });
 
     it('deduplicates identical browser entries', () => {
@@ -180,11 +210,398 @@ describe('JenkinsReporter — internal helpers', () => {
           { use: { browserName: 'chromium', headless: true }, name: 'chromium-2' },
         ],
       };
-      expect(r.getBrowserDisplay(config, makeTests('chromium', 'chromium-2'))).toBe('chromium (headless)');
+      expect(getBrowserDisplay(config as any, makeTests('chromium', 'chromium-2'))).toBe('chromium (headless)');
     });
 
     it('falls back to chromium headless when no tests', () => {
-      expect(r.getBrowserDisplay({ projects: [] }, [])).toBe('chromium (headless)');
+      expect(getBrowserDisplay({ projects: [] } as any, [])).toBe('chromium (headless)');
+    });
+  });
+
+  describe('resolveOptions', () => {
+    it('falls back to defaults when no options are given', () => {
+      const { options, errors } = resolveOptions(undefined, {});
+      expect(errors).toEqual([]);
+      expect(options.color).toBe(true);
+      expect(options.minLineWidth).toBe(60);
+      expect(options.maxLineWidth).toBe(96);
+      expect(options.showScreenshots).toBe(true);
+    });
+
+    it('derives color from NO_COLOR / FORCE_COLOR', () => {
+      expect(resolveOptions({}, { NO_COLOR: '1' }).options.color).toBe(false);
+      expect(resolveOptions({}, { FORCE_COLOR: '0' }).options.color).toBe(false);
+      expect(resolveOptions({ color: true }, { NO_COLOR: '1' }).options.color).toBe(true);
+    });
+
+    it('reports unknown keys', () => {
+      const { errors } = resolveOptions({ colour: false }, {});
+      expect(errors).toEqual(['Unknown option "colour"']);
+    });
+
+    it('reports invalid values and keeps the default', () => {
+      const { options, errors } = resolveOptions({ maxLineWidth: '80' }, {});
+      expect(errors).toEqual(['Option "maxLineWidth" must be a positive integer, received "80"']);
+      expect(options.maxLineWidth).toBe(96);
+    });
+
+    it('names the invalid entry of an array option', () => {
+      const { options, errors } = resolveOptions({ hiddenFrames: ['/helpers/', 42], renderers: {} }, {});
+      expect(errors).toEqual([
+        'Option "hiddenFrames" entry 1 must be a string or RegExp, received 42',
+        'Option "renderers" must be an array of renderer objects, received an object',
+      ]);
+      expect(options.renderers).toEqual([]);
+    });
+
+    it('ignores keys injected by Playwright', () => {
+      const { errors } = resolveOptions({ configDir: '/project', _mode: 'test' }, {});
+      expect(errors).toEqual([]);
+    });
+
+    it('rejects minLineWidth greater than maxLineWidth', () => {
+      const { errors } = resolveOptions({ minLineWidth: 100, maxLineWidth: 80 }, {});
+      expect(errors).toHaveLength(1);
+    });
+
+    it('accepts colour depths and validates the theme', () => {
+      expect(resolveOptions({ color: '256' }, {}).errors).toEqual([]);
+      expect(resolveOptions({ color: '16' }, {}).errors).toEqual([
+        'Option "color" must be a boolean, "basic", "256" or "truecolor", received "16"',
+      ]);
+      expect(resolveOptions({ theme: { flaky: 'brightYellow bold', stack: '#888' } }, {}).errors).toEqual([]);
+      expect(resolveOptions({ theme: { flaky: 'sparkly' } }, {}).errors).toHaveLength(1);
+      expect(resolveOptions({ theme: { passed: 'green' } }, {}).errors).toHaveLength(1);
+    });
+  });
+
+  describe('detectColorLevel', () => {
+    it('respects FORCE_COLOR levels', () => {
+      expect(detectColorLevel({ FORCE_COLOR: '1', COLORTERM: 'truecolor' })).toBe(1);
+      expect(detectColorLevel({ FORCE_COLOR: '2' })).toBe(2);
+      expect(detectColorLevel({ FORCE_COLOR: '3' })).toBe(3);
+      expect(detectColorLevel({ FORCE_COLOR: 'true' })).toBe(1);
+    });
+
+    it('detects truecolor and 256-colour terminals', () => {
+      expect(detectColorLevel({ COLORTERM: 'truecolor' })).toBe(3);
+      expect(detectColorLevel({ COLORTERM: '24bit' })).toBe(3);
+      expect(detectColorLevel({ TERM: 'xterm-256color' })).toBe(2);
+      expect(detectColorLevel({ TERM: 'xterm' })).toBe(1);
+    });
+  });
+
+  describe('buildTheme', () => {
+    it('styles every element by default', () => {
+      const theme = buildTheme({}, 1);
+      expect(theme.pass('ok')).toBe('\u001b[32mok\u001b[0m');
+      expect(theme.flaky('ok')).toBe('\u001b[33mok\u001b[0m');
+      expect(theme.pending('ok')).toBe('\u001b[36mok\u001b[0m');
+      expect(theme.skipped('ok')).toBe('\u001b[2mok\u001b[0m');
+      expect(theme.heading('ok')).toBe('\u001b[1mok\u001b[0m');
+    });
+
+    it('applies overrides and leaves empty styles unstyled', () => {
+      const theme = buildTheme({ pass: 'brightGreen underline', stack: '' }, 1);
+      expect(theme.pass('ok')).toBe('\u001b[92;4mok\u001b[0m');
+      expect(theme.stack('ok')).toBe('ok');
+    });
+
+    it('downgrades hex and 256-colour styles to the colour level', () => {
+      const theme = (level: 1 | 2 | 3) => buildTheme({ flaky: '#ff8800', path: '244' }, level);
+      expect(theme(3).flaky('x')).toBe('\u001b[38;2;255;136;0mx\u001b[0m');
+      expect(theme(2).flaky('x')).toBe('\u001b[38;5;214mx\u001b[0m');
+      expect(theme(1).flaky('x')).toBe('\u001b[93mx\u001b[0m');
+      expect(theme(2).path('x')).toBe('\u001b[38;5;244mx\u001b[0m');
+      expect(theme(1).path('x')).toBe('\u001b[90mx\u001b[0m');
+    });
+  });
+
+  describe('isUserFrame', () => {
+    it('hides framework frames by default', () => {
+      expect(r.isUserFrame('    at run (/app/node_modules/foo/index.js:1:1)')).toBe(false);
+      expect(r.isUserFrame('    at Object.<anonymous> (/app/tests/a.spec.ts:3:5)')).toBe(true);
+    });
+
+    it('matches global RegExps on every frame', () => {
+      const frame = '    at x (/app/vendor/lib.ts:1:1)';
+      expect([frame, frame, frame].map((line) => isUserFrame(line, [/vendor/g]))).toEqual([false, false, false]);
+    });
+
+    it('uses hiddenFrames from options', () => {
+      const reporter = renderer({ hiddenFrames: ['/helpers/', /vendor/] });
+      expect(reporter.isUserFrame('    at login (/app/helpers/auth.ts:3:5)')).toBe(false);
+      expect(reporter.isUserFrame('    at x (/app/vendor/lib.ts:1:1)')).toBe(false);
+      expect(reporter.isUserFrame('    at run (/app/node_modules/foo/index.js:1:1)')).toBe(true);
+    });
+  });
+
+  describe('write destinations', () => {
+    let dir: string;
+    let stdoutSpy: jest.SpyInstance;
+    let stdout: string[];
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-'));
+      stdout = [];
+      stdoutSpy = jest
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((chunk: any) => stdout.push(String(chunk)) > 0);
+    });
+
+    afterEach(() => {
+      stdoutSpy.mockRestore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('tees to stdout and strips ANSI codes in the file', () => {
+      const reporter = renderer({ color: true, outputFile: 'out/report.txt', configDir: dir });
+      reporter.openOutputFile();
+      reporter.write(reporter.paint('pass', 'ok\n'));
+      reporter.closeOutputFile();
+
+      expect(stdout.join('')).toBe('\u001b[32mok\n\u001b[0m');
+      expect(fs.readFileSync(path.join(dir, 'out/report.txt'), 'utf-8')).toBe('ok\n');
+    });
+
+    it('keeps colour in the file when outputFileColor is set', () => {
+      const reporter = renderer({
+        color: false,
+        outputFile: 'report.txt',
+        outputFileColor: true,
+        configDir: dir,
+      });
+      reporter.openOutputFile();
+      reporter.write(reporter.paint('fail', 'fail'));
+      reporter.closeOutputFile();
+
+      expect(stdout.join('')).toBe('fail');
+      expect(fs.readFileSync(path.join(dir, 'report.txt'), 'utf-8')).toBe('\u001b[31mfail\u001b[0m');
+    });
+
+    it('writes only the file when stdout is false', () => {
+      const reporter = renderer({ stdout: false, outputFile: 'report.txt', configDir: dir });
+      reporter.openOutputFile();
+      reporter.write('line\n');
+      reporter.closeOutputFile();
+
+      expect(stdout).toEqual([]);
+      expect(new JenkinsReporter({ stdout: false, outputFile: 'report.txt' }).printsToStdio()).toBe(false);
+      expect(fs.readFileSync(path.join(dir, 'report.txt'), 'utf-8')).toBe('line\n');
+    });
+
+    it('rejects stdout: false without an outputFile', () => {
+      expect(resolveOptions({ stdout: false }, {}).errors).toHaveLength(1);
+    });
+  });
+
+  describe('userFrames', () => {
+    it('makes framed and bare absolute paths relative to the working directory', () => {
+      const file = path.join(process.cwd(), 'e2e', 'one.spec.ts');
+      const stack = [
+        'Error: boom',
+        `    at ${file}:7:39`,
+        `    at login (${file}:3:5)`,
+        `    at file://${file}:9:1`,
+        '    at /app/node_modules/playwright/lib/x.js:1:1',
+      ].join('\n');
+      expect(userFrames(stack, ['node_modules'])).toEqual([
+        `at ${path.join('e2e', 'one.spec.ts')}:7:39`,
+        `at login (${path.join('e2e', 'one.spec.ts')}:3:5)`,
+        `at ${path.join('e2e', 'one.spec.ts')}:9:1`,
+      ]);
+    });
+
+    it('leaves frames without an absolute path alone', () => {
+      expect(userFrames('    at Object.<anonymous> (test.spec.ts:10:5)\n    at <anonymous>', [])).toEqual([
+        'at Object.<anonymous> (test.spec.ts:10:5)',
+        'at <anonymous>',
+      ]);
+    });
+  });
+
+  describe('escapeXml', () => {
+    it('escapes markup characters', () => {
+      expect(escapeXml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+    });
+
+    it('strips ANSI codes and control characters', () => {
+      expect(escapeXml('\u001b[31mred\u001b[39m\u0007')).toBe('red');
+    });
+  });
+
+  describe('escapeHtml', () => {
+    it('escapes markup characters with HTML entities and strips ANSI codes', () => {
+      expect(escapeHtml(`\u001b[31m<a href="x">'&'</a>\u001b[39m`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;',
+      );
+    });
+  });
+
+  describe('parseStackLocation', () => {
+    it('parses named and anonymous frames', () => {
+      expect(parseStackLocation('    at Object.<anonymous> (/app/a.spec.ts:10:5)')).toEqual({
+        file: '/app/a.spec.ts',
+        line: 10,
+        column: 5,
+      });
+      expect(parseStackLocation('at /app/a.spec.ts:3:1')).toEqual({ file: '/app/a.spec.ts', line: 3, column: 1 });
+    });
+
+    it('strips file:// URLs and ignores frames without a location', () => {
+      expect(parseStackLocation('at fn (file:///app/a.mjs:1:2)')?.file).toBe('/app/a.mjs');
+      expect(parseStackLocation('at async Promise.all (index 0)')).toBeUndefined();
+    });
+  });
+
+  describe('buildCodeFrame', () => {
+    const source = ['line one', 'line two', 'const x = expect(y);', 'line four', 'line five', 'line six'].join('\n');
+
+    it('renders context lines with a marker and caret', () => {
+      const frame = buildCodeFrame(source, { line: 3, column: 11 });
+      expect(frame.map((l) => l.text)).toEqual([
+        '  1 | line one',
+        '  2 | line two',
+        '> 3 | const x = expect(y);',
+        '    |           ^',
+        '  4 | line four',
+        '  5 | line five',
+      ]);
+      expect(frame.filter((l) => l.focus)).toHaveLength(2);
+    });
+
+    it('returns nothing for an out-of-range line', () => {
+      expect(buildCodeFrame(source, { line: 40, column: 1 })).toEqual([]);
+    });
+  });
+
+  describe('analyzeHistory', () => {
+    const run = (tests: HistoryRun['tests']): HistoryRun => ({ startedAt: '2024-01-01T00:00:00.000Z', tests });
+    const passed = (duration = 1000) => ({ outcome: 'passed' as const, duration });
+    const failed = { outcome: 'failed' as const, duration: 1000 };
+    const flaky = { outcome: 'flaky' as const, duration: 1000 };
+
+    it('classifies new, continuing and fixed failures', () => {
+      const previous = [run({ a: passed(), b: failed, c: failed }), run({ a: passed(), b: failed, c: failed })];
+      const insights = analyzeHistory(previous, run({ a: failed, b: failed, c: passed() }), 1.5);
+      expect(insights).toEqual([
+        { kind: 'new-failure', key: 'a' },
+        { kind: 'still-failing', key: 'b', runs: 3 },
+        { kind: 'fixed', key: 'c' },
+      ]);
+    });
+
+    it('counts flaky outcomes across recent runs', () => {
+      const previous = [run({ a: flaky }), run({ a: passed() }), run({})];
+      expect(analyzeHistory(previous, run({ a: flaky }), 1.5)).toEqual([
+        { kind: 'flaky', key: 'a', flaky: 2, runs: 3 },
+      ]);
+    });
+
+    it('reports a test that alternates between passing and failing as flaky', () => {
+      const previous = [run({ a: failed }), run({ a: passed() }), run({ a: failed }), run({ a: passed() })];
+      expect(analyzeHistory(previous, run({ a: failed }), 1.5)).toEqual([
+        { kind: 'flaky', key: 'a', flaky: 3, runs: 5 },
+      ]);
+      expect(analyzeHistory(previous, run({ a: passed() }), 1.5)).toEqual([
+        { kind: 'flaky', key: 'a', flaky: 2, runs: 5 },
+      ]);
+    });
+
+    it('needs three switches between passing and failing to call a test flaky', () => {
+      const previous = [run({ a: passed() }), run({ a: failed }), run({ a: passed() })];
+      expect(analyzeHistory(previous, run({ a: failed }), 1.5)).toEqual([
+        { kind: 'flaky', key: 'a', flaky: 2, runs: 4 },
+      ]);
+      expect(analyzeHistory(previous.slice(0, 2), run({ a: passed() }), 1.5)).toEqual([{ kind: 'fixed', key: 'a' }]);
+      expect(analyzeHistory(previous.slice(1), run({ a: failed }), 1.5)).toEqual([{ kind: 'new-failure', key: 'a' }]);
+    });
+
+    it('counts failed runs of a test that was also flaky', () => {
+      const previous = [run({ a: failed }), run({ a: failed }), run({ a: passed() })];
+      expect(analyzeHistory(previous, run({ a: flaky }), 1.5)).toEqual([
+        { kind: 'flaky', key: 'a', flaky: 3, runs: 4 },
+      ]);
+    });
+
+    it('flags duration regressions against the rolling median', () => {
+      const previous = [run({ a: passed(1000) }), run({ a: passed(1200) }), run({ a: passed(900) })];
+      expect(analyzeHistory(previous, run({ a: passed(2000) }), 1.5)).toEqual([
+        { kind: 'slower', key: 'a', duration: 2000, median: 1000 },
+      ]);
+      expect(analyzeHistory(previous, run({ a: passed(1400) }), 1.5)).toEqual([]);
+    });
+
+    it('needs enough samples before flagging a regression', () => {
+      const previous = [run({ a: passed(1000) }), run({ a: passed(1000) })];
+      expect(analyzeHistory(previous, run({ a: passed(5000) }), 1.5)).toEqual([]);
+    });
+  });
+
+  describe('errorSignature', () => {
+    it('replaces numbers, ids and URL query strings', () => {
+      expect(
+        errorSignature('Timeout 5000ms exceeded waiting for https://api.example.com/users/42?token=abc#top'),
+      ).toBe('Timeout <n>ms exceeded waiting for https://api.example.com/users/<n>');
+      expect(errorSignature('Order 3f2a9c1e-8b7d-4e6f-a5b4-c3d2e1f0a9b8 not found (req 7f3c9a1b2d)')).toBe(
+        'Order <id> not found (req <id>)',
+      );
+    });
+
+    it('drops colour codes, the call log and extra whitespace', () => {
+      expect(
+        errorSignature('\u001b[31mexpect(locator).toBeVisible()\u001b[39m\n\n  Locator: #cart\n  Call log:\n    - waiting for #cart'),
+      ).toBe('expect(locator).toBeVisible() Locator: #cart');
+    });
+
+    it('leaves ordinary words alone', () => {
+      expect(errorSignature('Expected deadbeef to be cafebabe')).toBe('Expected deadbeef to be cafebabe');
+    });
+  });
+
+  describe('clusterFailures', () => {
+    const failure = (title: string, message?: string) => ({
+      filePath: '/a.spec.ts',
+      titlePath: ['', 'chromium', 'a.spec.ts', title],
+      error: message === undefined ? undefined : { message },
+    });
+
+    it('groups by signature, largest cluster first', () => {
+      const clusters = clusterFailures([
+        failure('a', 'Expected 1 to be 2'),
+        failure('b', 'connect ECONNREFUSED 127.0.0.1:3000'),
+        failure('c', 'connect ECONNREFUSED 127.0.0.1:3001'),
+        failure('d', 'Expected 3 to be 4'),
+        failure('e', 'connect ECONNREFUSED 127.0.0.1:4000'),
+      ]);
+      expect(clusters.map((cluster) => [cluster.signature, cluster.failures.length])).toEqual([
+        ['connect ECONNREFUSED <n>.<n>.<n>.<n>:<n>', 3],
+        ['Expected <n> to be <n>', 2],
+      ]);
+    });
+
+    it('groups failures without a message by kind', () => {
+      const clusters = clusterFailures([failure('a'), { ...failure('b'), unexpectedPass: true }, failure('c')]);
+      expect(clusters.map((cluster) => cluster.signature)).toEqual([
+        'No error message available',
+        'Test was expected to fail but passed',
+      ]);
+    });
+  });
+
+  describe('detectCiProvider', () => {
+    it('recognises GitHub Actions and GitLab CI', () => {
+      expect(detectCiProvider({ GITHUB_ACTIONS: 'true' })).toBe('github');
+      expect(detectCiProvider({ GITLAB_CI: 'true' })).toBe('gitlab');
+      expect(detectCiProvider({ CI: 'true' })).toBeUndefined();
+    });
+  });
+
+  describe('githubErrorCommand', () => {
+    it('escapes messages and properties', () => {
+      expect(
+        githubErrorCommand({ file: 'a.spec.ts', line: 3, title: 'chromium > a: b, c', message: '100% broken\nsecond line' }),
+      ).toBe('::error file=a.spec.ts,line=3,title=chromium > a%3A b%2C c::100%25 broken%0Asecond line\n');
     });
   });
 });